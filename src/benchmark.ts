@@ -1,4 +1,14 @@
-import { matcher, isMatch, fuzzyMatch, matchAdvanced } from "./matcher";
+import {
+  matcher,
+  isMatch,
+  fuzzyMatch,
+  matchAdvanced,
+  createMatcher,
+  createBulkMatcher,
+} from "./matcher";
+import { matchParallel } from "./parallel";
+import { levenshteinDistance } from "./utils";
+import { cpus } from "os";
 
 interface BenchmarkResult {
   name: string;
@@ -11,10 +21,11 @@ interface BenchmarkResult {
 function benchmark(
   name: string,
   fn: () => void,
-  iterations: number = 10000
+  iterations: number = 10000,
+  warmupIterations: number = 100
 ): BenchmarkResult {
   // Warm up
-  for (let i = 0; i < 100; i++) {
+  for (let i = 0; i < warmupIterations; i++) {
     fn();
   }
 
@@ -38,6 +49,31 @@ function benchmark(
   };
 }
 
+/**
+ * Full-matrix Levenshtein distance, kept as a baseline for comparison
+ */
+function matrixLevenshtein(a: string, b: string): number {
+  const matrix: number[][] = Array(a.length + 1)
+    .fill(null)
+    .map(() => Array(b.length + 1).fill(0));
+
+  for (let i = 0; i <= a.length; i++) matrix[i]![0] = i;
+  for (let j = 0; j <= b.length; j++) matrix[0]![j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      matrix[i]![j] = Math.min(
+        matrix[i - 1]![j]! + 1,
+        matrix[i]![j - 1]! + 1,
+        matrix[i - 1]![j - 1]! + cost
+      );
+    }
+  }
+
+  return matrix[a.length]![b.length]!;
+}
+
 function printResult(result: BenchmarkResult): void {
   console.log(`\n${result.name}:`);
   console.log(`  Iterations: ${result.iterations.toLocaleString()}`);
@@ -76,6 +112,21 @@ const basicResult = benchmark(
 );
 printResult(basicResult);
 
+const compiledMatcher = createMatcher(testPatterns);
+const compiledResult = benchmark(
+  "Compiled matcher (createMatcher)",
+  () => {
+    compiledMatcher.filter(testInputs);
+  },
+  50000
+);
+printResult(compiledResult);
+console.log(
+  `  Speed-up vs basic matcher: ${(
+    compiledResult.operationsPerSecond / basicResult.operationsPerSecond
+  ).toFixed(2)}x`
+);
+
 const isMatchResult = benchmark(
   "isMatch",
   () => {
@@ -125,6 +176,54 @@ const advancedResult = benchmark(
 );
 printResult(advancedResult);
 
+// Levenshtein distance: full matrix vs. bit-parallel, two-row and banded
+const shortPair: [string, string] = ["configuration.json", "configuraton.jsn"];
+const longPair: [string, string] = [
+  "2025-08-17T10:15:32Z INFO server listening on port 8080 (pid 4242)",
+  "2025-08-17T10:15:33Z INFO server listening on port 8081 (pid 4243)",
+];
+
+const distanceCases: Array<[string, () => number, () => number, number]> = [
+  [
+    "short strings",
+    () => matrixLevenshtein(...shortPair),
+    () => levenshteinDistance(...shortPair),
+    100000,
+  ],
+  [
+    "long strings",
+    () => matrixLevenshtein(...longPair),
+    () => levenshteinDistance(...longPair),
+    20000,
+  ],
+  [
+    "long strings, maxDistance 3",
+    () => matrixLevenshtein(...longPair),
+    () => levenshteinDistance(longPair[0], longPair[1], 3),
+    20000,
+  ],
+];
+
+for (const [label, baseline, optimized, iterations] of distanceCases) {
+  const baselineResult = benchmark(
+    `Levenshtein full matrix (${label})`,
+    baseline,
+    iterations
+  );
+  const optimizedResult = benchmark(
+    `levenshteinDistance (${label})`,
+    optimized,
+    iterations
+  );
+  printResult(baselineResult);
+  printResult(optimizedResult);
+  console.log(
+    `  Speed-up vs full matrix: ${(
+      optimizedResult.operationsPerSecond / baselineResult.operationsPerSecond
+    ).toFixed(2)}x`
+  );
+}
+
 // Memory usage benchmark
 const memoryBefore = process.memoryUsage();
 const largeInputs = Array(10000)
@@ -140,6 +239,40 @@ benchmark(
   100
 );
 
+// Large pattern set: 10k allow/deny entries
+const largePatternSet = Array(10000)
+  .fill(null)
+  .map((_, i) =>
+    i % 10 === 0 ? `!*-${i}.tmp` : i % 2 === 0 ? `file-${i}.js` : `dir-${i}/*`
+  );
+const largePatternInputs = largeInputs.slice(0, 500);
+const compiledLargeMatcher = createMatcher(largePatternSet);
+const bulkLargeMatcher = createBulkMatcher(largePatternSet);
+
+const compiledLargeResult = benchmark(
+  "Large dataset, 10k patterns (createMatcher)",
+  () => {
+    compiledLargeMatcher.filter(largePatternInputs);
+  },
+  3,
+  1
+);
+const bulkLargeResult = benchmark(
+  "Large dataset, 10k patterns (createBulkMatcher)",
+  () => {
+    bulkLargeMatcher.filter(largePatternInputs);
+  },
+  3,
+  1
+);
+printResult(compiledLargeResult);
+printResult(bulkLargeResult);
+console.log(
+  `  Speed-up vs createMatcher: ${(
+    compiledLargeResult.averageTime / bulkLargeResult.averageTime
+  ).toFixed(2)}x`
+);
+
 const memoryAfter = process.memoryUsage();
 
 console.log("\nMemory usage:");
@@ -158,4 +291,75 @@ console.log(
   }MB`
 );
 
-console.log("\nBenchmark completed!");
+/**
+ * Times a single run of an async function
+ */
+async function timeAsync(
+  name: string,
+  fn: () => Promise<unknown>
+): Promise<BenchmarkResult> {
+  const startTime = Date.now();
+  await fn();
+  const totalTime = Date.now() - startTime;
+
+  return {
+    name,
+    iterations: 1,
+    totalTime,
+    averageTime: totalTime,
+    operationsPerSecond: Math.round(1000 / Math.max(totalTime, 1)),
+  };
+}
+
+// Worker threads: 500k inputs, serial matching vs matchParallel
+async function runParallelBenchmark(): Promise<void> {
+  const parallelInputs = Array(500000)
+    .fill(null)
+    .map((_, i) => `logs/2025/${i % 365}/service-${i}.log`);
+  const parallelPatterns = ["*/service-*.log", "!*/1*/*", "*.log"];
+  const workers = Math.max(1, cpus().length - 1);
+
+  const serialResult = benchmark(
+    "500k inputs (matcher)",
+    () => {
+      matcher(parallelInputs, parallelPatterns);
+    },
+    1,
+    0
+  );
+  const parallelCompiled = createMatcher(parallelPatterns);
+  const compiledSerialResult = benchmark(
+    "500k inputs (createMatcher)",
+    () => {
+      parallelCompiled.filter(parallelInputs);
+    },
+    1,
+    0
+  );
+  const parallelResult = await timeAsync(
+    `500k inputs (matchParallel, ${workers} workers)`,
+    () => matchParallel(parallelInputs, parallelPatterns, { workers })
+  );
+  printResult(serialResult);
+  printResult(compiledSerialResult);
+  printResult(parallelResult);
+  console.log(
+    `  Speed-up vs matcher: ${(
+      serialResult.averageTime / parallelResult.averageTime
+    ).toFixed(2)}x`
+  );
+  console.log(
+    `  Speed-up vs createMatcher: ${(
+      compiledSerialResult.averageTime / parallelResult.averageTime
+    ).toFixed(2)}x`
+  );
+}
+
+runParallelBenchmark()
+  .then(() => {
+    console.log("\nBenchmark completed!");
+  })
+  .catch((error: unknown) => {
+    console.error("\nParallel benchmark failed:", error);
+    process.exitCode = 1;
+  });
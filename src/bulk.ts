@@ -0,0 +1,296 @@
+import type {
+  PatternDiagnostic,
+  PatternFragment,
+  PreparedPattern,
+} from "./types";
+import type { MatchingEngine } from "./engine";
+import { getBasename } from "./utils";
+
+/**
+ * Node of a character trie over pattern prefixes or reversed suffixes
+ */
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  patterns: number[];
+}
+
+/**
+ * Creates an empty trie node
+ */
+function createNode(): TrieNode {
+  return { children: new Map(), patterns: [] };
+}
+
+/**
+ * Returns the literal text of a literal fragment, resolving escapes
+ */
+function literalText(fragment: PatternFragment, escapes: boolean): string {
+  return escapes ? fragment.token.replace(/\\([\s\S])/g, "$1") : fragment.token;
+}
+
+/**
+ * Returns the literal text every input matched by a compiled pattern must
+ * start and end with (empty when the pattern starts or ends with a wildcard)
+ *
+ * @example
+ * ```typescript
+ * literalAffixes(compilePattern('src/*.ts').fragments, true);
+ * //=> { prefix: 'src/', suffix: '.ts' }
+ * ```
+ */
+export function literalAffixes(
+  fragments: readonly PatternFragment[],
+  escapes: boolean
+): { prefix: string; suffix: string } {
+  const body = fragments.filter(
+    (fragment) => fragment.type !== "anchor" && fragment.type !== "boundary"
+  );
+  const first = body[0];
+  const last = body[body.length - 1];
+
+  return {
+    prefix: first?.type === "literal" ? literalText(first, escapes) : "",
+    suffix: last?.type === "literal" ? literalText(last, escapes) : "",
+  };
+}
+
+/**
+ * Index that narrows a large pattern list down to the few patterns that can
+ * match an input
+ *
+ * Every pattern is filed under its longer literal affix: prefixes in a trie
+ * walked from the start of the input, suffixes in a trie walked backwards from
+ * its end. Patterns without literal affixes are always candidates. Looking up
+ * an input costs one walk over its characters, however many patterns there are.
+ */
+export class PatternIndex {
+  private prefixes = createNode();
+  private suffixes = createNode();
+  private unindexed: number[] = [];
+
+  /**
+   * Files pattern `id` under its literal prefix or suffix
+   */
+  public add(id: number, prefix: string, suffix: string): void {
+    if (prefix === "" && suffix === "") {
+      this.unindexed.push(id);
+      return;
+    }
+
+    const fromStart = prefix.length >= suffix.length;
+    const affix = fromStart ? prefix : suffix;
+    let node = fromStart ? this.prefixes : this.suffixes;
+
+    for (let i = 0; i < affix.length; i++) {
+      const char = affix[fromStart ? i : affix.length - 1 - i]!;
+      let child = node.children.get(char);
+      if (!child) {
+        child = createNode();
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+
+    node.patterns.push(id);
+  }
+
+  /**
+   * Returns the ids of the patterns whose literal affix fits the input
+   */
+  public candidates(input: string): number[] {
+    const found = [...this.unindexed];
+
+    let node: TrieNode | undefined = this.prefixes;
+    for (let i = 0; node && i < input.length; i++) {
+      node = node.children.get(input[i]!);
+      if (node) found.push(...node.patterns);
+    }
+
+    node = this.suffixes;
+    for (let i = input.length - 1; node && i >= 0; i--) {
+      node = node.children.get(input[i]!);
+      if (node) found.push(...node.patterns);
+    }
+
+    return found;
+  }
+}
+
+/**
+ * Group of prepared patterns that share negation and basename matching
+ */
+interface PatternGroup {
+  index: PatternIndex;
+  matchBase: boolean;
+}
+
+/**
+ * Pattern list compiled for bulk matching
+ *
+ * Patterns compiled to a regex are looked up through a {@link PatternIndex}
+ * and only the candidates are run; the rest (fuzzy, separator and partial
+ * matching) are checked one by one. Decisions are the same as
+ * `MatchingEngine.matchPreparedSet`.
+ */
+export class BulkPatternSet {
+  private readonly prepared: PreparedPattern[];
+  private readonly regexes: Array<RegExp | undefined>;
+  private readonly positive: PatternGroup[];
+  private readonly negative: PatternGroup[];
+  private readonly positiveCount: number;
+  private readonly allPatterns: boolean;
+  private readonly ordered: boolean;
+
+  /**
+   * Invalid patterns left out with `strict: false`
+   */
+  public readonly diagnostics: PatternDiagnostic[];
+
+  constructor(private readonly engine: MatchingEngine, patterns: string[]) {
+    const options = engine.getOptions();
+    const escapes = !options.literal;
+    const patternSet = engine.preparePatterns(patterns);
+    this.prepared = patternSet.patterns;
+    this.diagnostics = patternSet.diagnostics;
+    this.allPatterns = options.allPatterns;
+    this.ordered = options.ordered;
+    this.positiveCount = this.prepared.filter((p) => !p.isNegated).length;
+
+    const createGroups = (): PatternGroup[] => [
+      { index: new PatternIndex(), matchBase: false },
+      { index: new PatternIndex(), matchBase: true },
+    ];
+    this.positive = createGroups();
+    this.negative = createGroups();
+
+    // Partial matching also accepts inputs that merely contain the pattern,
+    // and a lone `!` is special-cased by the engine
+    this.regexes = this.prepared.map((pattern) =>
+      !options.partialMatch && pattern.normalized !== "!"
+        ? pattern.compiled?.regex
+        : undefined
+    );
+
+    this.prepared.forEach((pattern, id) => {
+      const groups = pattern.isNegated ? this.negative : this.positive;
+      const { index } = groups[pattern.matchBase ? 1 : 0]!;
+
+      if (this.regexes[id] && pattern.compiled) {
+        const { prefix, suffix } = literalAffixes(
+          pattern.compiled.fragments,
+          escapes
+        );
+        index.add(id, prefix, suffix);
+      } else {
+        index.add(id, "", "");
+      }
+    });
+  }
+
+  /**
+   * Returns the ids of the patterns in `groups` whose base pattern matches
+   * the input, stopping after `limit` hits
+   */
+  private collect(
+    input: string,
+    normalizedInput: string,
+    groups: PatternGroup[],
+    limit: number = Infinity
+  ): number[] {
+    const hits: number[] = [];
+
+    for (const { index, matchBase } of groups) {
+      const subject = matchBase
+        ? getBasename(normalizedInput)
+        : normalizedInput;
+
+      for (const id of index.candidates(subject)) {
+        if (hits.length >= limit) {
+          return hits;
+        }
+        if (this.isHit(input, normalizedInput, subject, id)) {
+          hits.push(id);
+        }
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * Checks whether the base pattern (ignoring negation) matches the input
+   */
+  private isHit(
+    input: string,
+    normalizedInput: string,
+    subject: string,
+    id: number
+  ): boolean {
+    const regex = this.regexes[id];
+    if (regex) {
+      return regex.test(subject);
+    }
+
+    const pattern = this.prepared[id]!;
+    const { matched } = this.engine.matchPrepared(
+      input,
+      normalizedInput,
+      pattern
+    );
+    return pattern.isNegated ? !matched : matched;
+  }
+
+  /**
+   * Returns the ids of every pattern whose base pattern matches the input,
+   * in pattern order
+   */
+  private hitIds(input: string): number[] {
+    const normalizedInput = this.engine.normalizeInput(input);
+
+    return [
+      ...this.collect(input, normalizedInput, this.negative),
+      ...this.collect(input, normalizedInput, this.positive),
+    ].sort((a, b) => a - b);
+  }
+
+  /**
+   * Returns the indices of every pattern whose base pattern matches the
+   * input, in pattern order; for negated patterns these are the patterns
+   * that exclude the input
+   */
+  public hits(input: string): number[] {
+    return this.hitIds(input).map((id) => this.prepared[id]!.index);
+  }
+
+  /**
+   * Checks whether the input matches, stopping at the first negated pattern
+   * that excludes it; in `ordered` mode the last pattern that hits decides
+   */
+  public test(input: string): boolean {
+    if (this.prepared.length === 0) {
+      return false;
+    }
+
+    if (this.ordered) {
+      const hits = this.hitIds(input);
+      const last = hits[hits.length - 1];
+      return last === undefined
+        ? this.prepared[0]!.isNegated
+        : !this.prepared[last]!.isNegated;
+    }
+
+    const normalizedInput = this.engine.normalizeInput(input);
+
+    if (this.collect(input, normalizedInput, this.negative, 1).length > 0) {
+      return false;
+    }
+    if (this.positiveCount === 0) {
+      return true;
+    }
+
+    return this.allPatterns
+      ? this.collect(input, normalizedInput, this.positive).length ===
+          this.positiveCount
+      : this.collect(input, normalizedInput, this.positive, 1).length > 0;
+  }
+}
@@ -0,0 +1,174 @@
+import type {
+  MatcherOptions,
+  PatternCacheEntry,
+  PatternCacheOptions,
+  PatternCacheStats,
+} from "./types";
+import { MatcherOptionsError } from "./errors";
+
+/**
+ * Default number of compiled patterns a cache holds
+ */
+const DEFAULT_MAX_SIZE = 1000;
+
+/**
+ * LRU cache of compiled patterns with an optional time to live
+ *
+ * The library shares one default cache; pass your own instance to
+ * `MatchingEngine` to keep one tenant's patterns from evicting another's.
+ *
+ * @example
+ * ```typescript
+ * const cache = new PatternCache({ maxSize: 200, ttl: 60_000 });
+ * const engine = new MatchingEngine({ caseSensitive: true }, cache);
+ *
+ * engine.matchSingle('app.ts', '*.ts');
+ * cache.stats(); //=> { size: 1, hits: 0, misses: 1, evictions: 0, ... }
+ * ```
+ */
+export class PatternCache {
+  private readonly entries = new Map<
+    string,
+    { entry: PatternCacheEntry; expiresAt: number }
+  >();
+  private readonly maxSize: number;
+  private readonly ttl: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(options: PatternCacheOptions = {}) {
+    const { maxSize = DEFAULT_MAX_SIZE, ttl = Infinity } = options;
+
+    if (!Number.isInteger(maxSize) || maxSize < 0) {
+      throw new MatcherOptionsError(
+        "maxSize",
+        maxSize,
+        `maxSize must be a non-negative integer: ${maxSize}`
+      );
+    }
+    if (!(ttl > 0)) {
+      throw new MatcherOptionsError(
+        "ttl",
+        ttl,
+        `ttl must be a positive number of milliseconds: ${ttl}`
+      );
+    }
+
+    this.maxSize = maxSize;
+    this.ttl = ttl;
+  }
+
+  /**
+   * Builds the cache key for a pattern compiled with the given options
+   *
+   * Only options that change the compiled regex are part of the key, with
+   * defaults filled in, so equivalent option objects share an entry whatever
+   * their key order or unrelated options.
+   */
+  static key(pattern: string, options: MatcherOptions = {}): string {
+    return JSON.stringify([
+      pattern,
+      options.caseSensitive === true,
+      options.wordBoundary === true,
+      options.syntax ?? "wildcard",
+      options.literal === true,
+      options.path === true,
+      options.dot === true,
+      options.separator ?? "",
+    ]);
+  }
+
+  /**
+   * Number of entries currently cached, including expired ones not yet
+   * looked up
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns a cached entry and marks it as most recently used
+   */
+  get(key: string): PatternCacheEntry | undefined {
+    const cached = this.entries.get(key);
+
+    if (!cached) {
+      this.misses++;
+      return undefined;
+    }
+    if (cached.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.expirations++;
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-inserting moves the entry to the end of the eviction order
+    this.entries.delete(key);
+    this.entries.set(key, cached);
+    this.hits++;
+    return cached.entry;
+  }
+
+  /**
+   * Stores an entry, evicting the least recently used one when full
+   */
+  set(key: string, entry: PatternCacheEntry): void {
+    if (this.maxSize === 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+        this.evictions++;
+      }
+    }
+
+    this.entries.set(key, { entry, expiresAt: Date.now() + this.ttl });
+  }
+
+  /**
+   * Removes every entry; counters are kept
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Resets the hit, miss, eviction and expiration counters
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+  }
+
+  /**
+   * Returns the cache size and counters
+   */
+  stats(): PatternCacheStats {
+    const lookups = this.hits + this.misses;
+
+    return {
+      size: this.entries.size,
+      maxSize: this.maxSize,
+      ttl: this.ttl,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+}
+
+/**
+ * Cache shared by everything that does not bring its own
+ */
+export const defaultPatternCache = new PatternCache();
@@ -1,35 +1,101 @@
 import type {
+  CompiledRouteSegment,
   MatcherInput,
   MatcherPattern,
   MatcherOptions,
   MatchResult,
+  NormalizedText,
+  PatternDiagnostic,
+  PreparedPattern,
+  PreparedPatternSet,
 } from "./types";
 import {
+  captureFragments,
   compilePattern,
   normalizeString,
+  normalizePattern,
+  normalizeWithOffsets,
+  originalRange,
   fuzzyMatch,
+  resolveFuzzyCriteria,
   splitIntoSegments,
-  validatePattern,
+  assertValidPattern,
   getBasePattern,
+  getLiteralText,
+  isNegatedPattern,
+  toPosixPath,
+  getBasename,
 } from "./utils";
+import { getFuzzyAlgorithm, getFuzzyDistance } from "./similarity";
+import { matchRouteSegments, parseRoute } from "./route";
+import { PatternCache, defaultPatternCache } from "./cache";
+import {
+  DepthExceededError,
+  MatcherOptionsError,
+  PatternSyntaxError,
+} from "./errors";
+import { assertValidOptions } from "./options";
+
+/**
+ * Strings that normalization maps character for character
+ */
+const ASCII = /^[\x00-\x7f]*$/;
+
+/**
+ * Leaves out options set to `undefined` so they keep their defaults
+ */
+function definedOptions(options: MatcherOptions): MatcherOptions {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  );
+}
 
 /**
  * Core matching engine that handles the pattern matching logic
  */
 export class MatchingEngine {
   private options: Required<MatcherOptions>;
+  private readonly cache: PatternCache;
 
-  constructor(options: MatcherOptions = {}) {
+  /**
+   * Options set by the caller, without defaults, so that conflict warnings
+   * are only raised for combinations the caller asked for
+   */
+  private explicitOptions: MatcherOptions;
+
+  /**
+   * @param options - Matching options
+   * @param cache - Cache for compiled patterns; defaults to the shared cache
+   * @throws MatcherOptionsError for an option with an invalid value
+   */
+  constructor(
+    options: MatcherOptions = {},
+    cache: PatternCache = defaultPatternCache
+  ) {
+    this.explicitOptions = definedOptions(options);
+    assertValidOptions(this.explicitOptions);
+
+    this.cache = cache;
     this.options = {
       caseSensitive: false,
       allPatterns: false,
       fuzzyMatch: false,
-      fuzzyThreshold: 0.2,
+      fuzzyThreshold: 0.6,
+      fuzzyAlgorithm: "levenshtein",
       partialMatch: false,
+      prefix: false,
       wordBoundary: false,
       accentInsensitive: false,
+      caseFolding: "simple",
+      syntax: "wildcard",
+      literal: false,
+      path: false,
+      dot: false,
+      matchBase: false,
+      ordered: false,
       maxDepth: 10,
-      ...options,
+      strict: true,
+      ...this.explicitOptions,
     } as Required<MatcherOptions>;
   }
 
@@ -42,19 +108,146 @@ export class MatchingEngine {
     depth: number = 0
   ): MatchResult {
     if (depth > this.options.maxDepth) {
-      throw new Error(
-        `Maximum recursion depth (${this.options.maxDepth}) exceeded`
-      );
+      throw new DepthExceededError(this.options.maxDepth, depth);
     }
 
-    // Validate pattern
-    const validation = validatePattern(pattern);
-    if (!validation.valid) {
-      throw new Error(`Invalid pattern: ${validation.error}`);
+    return this.matchPrepared(
+      input,
+      this.normalizeInput(input),
+      this.preparePattern(pattern)
+    );
+  }
+
+  /**
+   * Normalizes an input the same way prepared patterns are normalized
+   */
+  public normalizeInput(input: string): string {
+    const normalized = normalizeString(input, this.options);
+    return this.options.path ? toPosixPath(normalized) : normalized;
+  }
+
+  /**
+   * Validates and normalizes a pattern once so it can be matched repeatedly
+   */
+  public preparePattern(pattern: string, index: number = 0): PreparedPattern {
+    // Reject patterns that aren't strings before normalizing them
+    if (typeof pattern !== "string") {
+      assertValidPattern(pattern, this.options);
+    }
+
+    // Backslashes in wildcard patterns are separators in path mode
+    const source =
+      this.options.path && this.options.syntax === "wildcard"
+        ? toPosixPath(pattern)
+        : pattern;
+
+    assertValidPattern(source, this.options);
+
+    const normalized = normalizePattern(source, this.options);
+    const isNegated = isNegatedPattern(normalized, this.options);
+    const prepared: PreparedPattern = {
+      pattern,
+      index,
+      normalized,
+      isNegated,
+      matchBase:
+        this.options.matchBase &&
+        !getBasePattern(normalized, this.options).includes("/"),
+    };
+
+    if (this.options.syntax === "route" && !this.options.literal) {
+      prepared.route = this.compileRoute(getBasePattern(source, this.options));
     }
 
-    const normalizedInput = normalizeString(input, this.options);
-    const normalizedPattern = normalizeString(pattern, this.options);
+    // Only plain regex matching can reuse a single compiled expression
+    if (
+      !this.options.fuzzyMatch &&
+      !this.options.separator &&
+      !prepared.route &&
+      normalized !== "" &&
+      normalized !== "!"
+    ) {
+      prepared.compiled = compilePattern(normalized, this.options, this.cache);
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Parses a route and compiles its static segments and constraints
+   */
+  private compileRoute(route: string): CompiledRouteSegment[] {
+    const flags = this.options.caseSensitive ? "" : "i";
+
+    return parseRoute(route, this.routeSeparator()).map((segment) => {
+      if (segment.type === "static") {
+        const literal = normalizePattern(segment.value, {
+          ...this.options,
+          syntax: "wildcard",
+        });
+        return {
+          ...segment,
+          regex: compilePattern(
+            literal,
+            { ...this.options, syntax: "wildcard", wordBoundary: false },
+            this.cache
+          ).regex,
+        };
+      }
+      return segment.constraint !== undefined
+        ? {
+            ...segment,
+            regex: new RegExp(`^(?:${segment.constraint})$`, flags),
+          }
+        : segment;
+    });
+  }
+
+  /**
+   * Separator between route segments
+   */
+  private routeSeparator(): string {
+    return this.options.separator ?? "/";
+  }
+
+  /**
+   * Prepares a list of patterns and splits it into positive and negative patterns
+   *
+   * With `strict: false`, invalid patterns are left out and reported in
+   * `diagnostics` instead of throwing.
+   */
+  public preparePatterns(patterns: readonly string[]): PreparedPatternSet {
+    const prepared: PreparedPattern[] = [];
+    const diagnostics: PatternDiagnostic[] = [];
+
+    patterns.forEach((pattern, index) => {
+      try {
+        prepared.push(this.preparePattern(pattern, index));
+      } catch (error) {
+        if (this.options.strict || !(error instanceof PatternSyntaxError)) {
+          throw error;
+        }
+        diagnostics.push({ pattern, index, error });
+      }
+    });
+
+    return {
+      patterns: prepared,
+      positive: prepared.filter((pattern) => !pattern.isNegated),
+      negative: prepared.filter((pattern) => pattern.isNegated),
+      diagnostics,
+    };
+  }
+
+  /**
+   * Matches an already normalized input against a prepared pattern
+   */
+  public matchPrepared(
+    input: string,
+    normalizedInput: string,
+    prepared: PreparedPattern
+  ): MatchResult {
+    const { pattern, normalized: normalizedPattern } = prepared;
 
     // Handle empty pattern
     if (normalizedPattern === "" || normalizedPattern === "!") {
@@ -68,29 +261,48 @@ export class MatchingEngine {
 
     // Handle fuzzy matching
     if (this.options.fuzzyMatch) {
-      const basePattern = getBasePattern(normalizedPattern);
+      const basePattern = getBasePattern(normalizedPattern, this.options);
       const fuzzyResult = fuzzyMatch(
         normalizedInput,
         basePattern,
-        this.options.fuzzyThreshold
+        resolveFuzzyCriteria(this.options),
+        getFuzzyAlgorithm(this.options.fuzzyAlgorithm),
+        getFuzzyDistance(this.options.fuzzyAlgorithm)
       );
-      const isNegated = normalizedPattern.startsWith("!");
 
       return {
-        matched: isNegated ? !fuzzyResult.matched : fuzzyResult.matched,
+        matched: prepared.isNegated
+          ? !fuzzyResult.matched
+          : fuzzyResult.matched,
         input,
         pattern,
         score: fuzzyResult.score,
+        ...(fuzzyResult.distance !== undefined && {
+          metadata: { distance: fuzzyResult.distance },
+        }),
       };
     }
 
+    // Handle route matching
+    if (prepared.route) {
+      return this.matchRoute(input, normalizedInput, prepared);
+    }
+
     // Handle segment-based matching
     if (this.options.separator) {
-      return this.matchSegments(normalizedInput, normalizedPattern);
+      return this.matchSegments(input, normalizedInput, prepared);
     }
 
     // Standard regex-based matching
-    return this.matchRegex(normalizedInput, normalizedPattern, input, pattern);
+    const subject = this.options.path ? toPosixPath(input) : input;
+    return this.matchRegex(
+      prepared.matchBase ? getBasename(normalizedInput) : normalizedInput,
+      normalizedPattern,
+      input,
+      pattern,
+      prepared.compiled,
+      prepared.matchBase ? getBasename(subject) : subject
+    );
   }
 
   /**
@@ -100,19 +312,29 @@ export class MatchingEngine {
     normalizedInput: string,
     normalizedPattern: string,
     originalInput: string,
-    originalPattern: string
+    originalPattern: string,
+    compiled = compilePattern(normalizedPattern, this.options, this.cache),
+    originalSubject: string = originalInput
   ): MatchResult {
-    const compiled = compilePattern(normalizedPattern, this.options);
-
-    let matched: boolean;
-
-    if (this.options.partialMatch && !compiled.isNegated) {
+    let matched = compiled.regex.test(normalizedInput);
+
+    // Only inputs that match get the second pass that extracts captures
+    const captures =
+      matched && !compiled.isNegated
+        ? captureFragments(
+            compiled,
+            normalizedInput,
+            this.offsetsOf(originalSubject, normalizedInput) ?? originalSubject
+          )
+        : null;
+
+    if (this.options.partialMatch && !compiled.isNegated && !matched) {
       // For partial matching, check if pattern matches any substring
-      matched =
-        compiled.regex.test(normalizedInput) ||
-        normalizedInput.includes(normalizedPattern.replace(/[*?]/g, ""));
-    } else {
-      matched = compiled.regex.test(normalizedInput);
+      matched = normalizedInput.includes(
+        this.options.literal
+          ? normalizedPattern
+          : getLiteralText(normalizedPattern)
+      );
     }
 
     // Handle negation
@@ -125,6 +347,7 @@ export class MatchingEngine {
       input: originalInput,
       pattern: originalPattern,
       score: matched ? 1 : 0,
+      ...(captures && { captures }),
     };
   }
 
@@ -132,56 +355,169 @@ export class MatchingEngine {
    * Matches input using segment-based approach
    */
   private matchSegments(
+    input: string,
     normalizedInput: string,
-    normalizedPattern: string
+    prepared: PreparedPattern
   ): MatchResult {
-    if (!this.options.separator) {
-      throw new Error("Separator is required for segment matching");
+    const { separator } = this.options;
+    if (!separator) {
+      throw new MatcherOptionsError(
+        "separator",
+        separator,
+        "Separator is required for segment matching"
+      );
     }
 
-    const inputSegments = splitIntoSegments(
+    const inputSegments = splitIntoSegments(normalizedInput, separator);
+    const originalSegments = this.originalSegments(
+      input,
       normalizedInput,
-      this.options.separator
+      inputSegments,
+      separator
     );
     const patternSegments = splitIntoSegments(
-      getBasePattern(normalizedPattern),
-      this.options.separator
+      getBasePattern(prepared.normalized, this.options),
+      separator
     );
 
-    const isNegated = normalizedPattern.startsWith("!");
+    const captures: string[] = [];
+    let end = 0;
 
-    // Check if all pattern segments match corresponding input segments
-    let matched = true;
-    const matchedSegments: string[] = [];
-
-    for (let i = 0; i < patternSegments.length; i++) {
+    // Backtracks over `**` segments, which take as many segments as they can
+    const visit = (i: number, j: number): boolean => {
       const patternSegment = patternSegments[i];
-      const inputSegment = inputSegments[i];
+      if (patternSegment === undefined) {
+        end = j;
+        return this.options.prefix || j === inputSegments.length;
+      }
 
-      if (!inputSegment || !patternSegment) {
-        matched = false;
-        break;
+      if (patternSegment === "**" && !this.options.literal) {
+        for (let k = inputSegments.length; k >= j; k--) {
+          captures[i] = originalSegments.slice(j, k).join(separator);
+          if (visit(i + 1, k)) {
+            return true;
+          }
+        }
+        return false;
       }
 
-      const compiled = compilePattern(patternSegment, this.options);
-      if (!compiled.regex.test(inputSegment)) {
-        matched = false;
-        break;
+      const inputSegment = inputSegments[j];
+      if (
+        inputSegment === undefined ||
+        !compilePattern(patternSegment, this.options, this.cache).regex.test(
+          inputSegment
+        )
+      ) {
+        return false;
       }
 
-      matchedSegments.push(inputSegment);
+      captures[i] = originalSegments[j]!;
+      return visit(i + 1, j + 1);
+    };
+
+    const found = visit(0, 0);
+    const matched = prepared.isNegated ? !found : found;
+
+    return {
+      matched,
+      input,
+      pattern: prepared.pattern,
+      score: matched ? 1 : 0,
+      segments: found ? originalSegments.slice(0, end) : [],
+      ...(found && !prepared.isNegated && { captures }),
+    };
+  }
+
+  /**
+   * Maps a normalized subject back to the original one, or returns undefined
+   * when every position is the same in both or the two don't line up
+   */
+  private offsetsOf(
+    original: string,
+    normalized: string
+  ): NormalizedText | undefined {
+    if (ASCII.test(original)) {
+      return undefined;
     }
 
-    if (isNegated) {
-      matched = !matched;
+    const offsets = normalizeWithOffsets(original, this.options);
+    return offsets.text === normalized ? offsets : undefined;
+  }
+
+  /**
+   * Splits the original input into segments that line up with the
+   * normalized ones, so results keep the caller's case and accents
+   */
+  private originalSegments(
+    input: string,
+    normalizedInput: string,
+    normalizedSegments: string[],
+    separator: string
+  ): string[] {
+    const subject = this.options.path ? toPosixPath(input) : input;
+    const offsets = this.offsetsOf(subject, normalizedInput);
+
+    if (offsets) {
+      // Cut the original where the separators are in the normalized input
+      const segments: string[] = [];
+      let start = 0;
+      while (start <= normalizedInput.length) {
+        const index = normalizedInput.indexOf(separator, start);
+        const end = index === -1 ? normalizedInput.length : index;
+        if (end > start) {
+          segments.push(subject.slice(...originalRange(offsets, start, end)));
+        }
+        start = end + separator.length;
+      }
+      return segments;
     }
 
+    const segments = splitIntoSegments(subject, separator);
+    return segments.length === normalizedSegments.length
+      ? segments
+      : normalizedSegments;
+  }
+
+  /**
+   * Matches input against a route pattern, segment by segment, and extracts
+   * its parameters
+   */
+  private matchRoute(
+    input: string,
+    normalizedInput: string,
+    prepared: PreparedPattern
+  ): MatchResult {
+    const separator = this.routeSeparator();
+    const inputSegments = splitIntoSegments(normalizedInput, separator);
+    const originalSegments = this.originalSegments(
+      input,
+      normalizedInput,
+      inputSegments,
+      separator
+    );
+
+    const params = matchRouteSegments(
+      prepared.route!,
+      inputSegments,
+      originalSegments,
+      separator
+    );
+    const matched = prepared.isNegated ? params === null : params !== null;
+
     return {
       matched,
-      input: normalizedInput,
-      pattern: normalizedPattern,
+      input,
+      pattern: prepared.pattern,
       score: matched ? 1 : 0,
-      segments: matchedSegments,
+      ...(params &&
+        !prepared.isNegated && {
+          segments: originalSegments,
+          // Parameter values in route order, with absent optionals as ""
+          captures: prepared
+            .route!.filter((segment) => segment.type !== "static")
+            .map((segment) => params[segment.value] ?? ""),
+          params,
+        }),
     };
   }
 
@@ -196,67 +532,122 @@ export class MatchingEngine {
       return { matched: false, input };
     }
 
-    const results: MatchResult[] = patterns.map((pattern) =>
-      this.matchSingle(input, pattern)
-    );
-
-    // Separate positive and negative patterns
-    const positiveResults = results.filter(
-      (result) => !result.pattern?.startsWith("!")
-    );
-    const negativeResults = results.filter((result) =>
-      result.pattern?.startsWith("!")
-    );
+    return this.matchPreparedSet(input, this.preparePatterns(patterns));
+  }
 
-    let matched = false;
-    let bestScore = 0;
-    let matchedPattern: string | undefined;
+  /**
+   * Matches input against a prepared pattern set
+   */
+  public matchPreparedSet(
+    input: string,
+    patternSet: PreparedPatternSet
+  ): MatchResult {
+    if (patternSet.patterns.length === 0) {
+      return { matched: false, input };
+    }
 
-    if (this.options.allPatterns) {
-      // All positive patterns must match, and no negative patterns should match
-      const allPositiveMatch =
-        positiveResults.length === 0 || positiveResults.every((r) => r.matched);
-      const noNegativeMatch = negativeResults.every((r) => r.matched); // Remember: negated patterns return true when they DON'T match
+    const normalizedInput = this.normalizeInput(input);
 
-      matched = allPositiveMatch && noNegativeMatch;
+    if (this.options.ordered) {
+      return this.matchOrdered(input, normalizedInput, patternSet.patterns);
+    }
 
-      if (matched && positiveResults.length > 0) {
-        const bestResult = positiveResults.reduce((best, current) =>
-          (current.score ?? 0) > (best.score ?? 0) ? current : best
-        );
-        bestScore = bestResult.score ?? 0;
-        matchedPattern = bestResult.pattern;
+    // A negated pattern "matches" when its base pattern does not, so the
+    // first one that fails excludes the input without looking any further
+    for (const pattern of patternSet.negative) {
+      if (!this.matchPrepared(input, normalizedInput, pattern).matched) {
+        return this.decide(input, false, pattern);
       }
-    } else {
-      // At least one positive pattern must match, and no negative patterns should match
-      const hasPositiveMatch =
-        positiveResults.length === 0 || positiveResults.some((r) => r.matched);
-      const hasNegativeMatch = negativeResults.some((r) => !r.matched); // A negative pattern "matches" when it returns false
-
-      matched = hasPositiveMatch && !hasNegativeMatch;
-
-      if (matched) {
-        const matchedPositive = positiveResults.find((r) => r.matched);
-        if (matchedPositive) {
-          bestScore = matchedPositive.score ?? 0;
-          matchedPattern = matchedPositive.pattern;
+    }
+
+    let best: [PreparedPattern, MatchResult] | undefined;
+
+    for (const pattern of patternSet.positive) {
+      const result = this.matchPrepared(input, normalizedInput, pattern);
+
+      if (this.options.allPatterns) {
+        // All positive patterns must match; report the best scoring one
+        if (!result.matched) {
+          return this.decide(input, false);
         }
+        if (!best || (result.score ?? 0) > (best[1].score ?? 0)) {
+          best = [pattern, result];
+        }
+      } else if (result.matched) {
+        // At least one positive pattern must match
+        best = [pattern, result];
+        break;
       }
     }
 
+    if (patternSet.positive.length > 0 && !best) {
+      return this.decide(input, false);
+    }
+
+    return this.decide(input, true, best?.[0], best?.[1]);
+  }
+
+  /**
+   * Matches input against patterns in order, where the last pattern whose
+   * base pattern matches decides, as in `.gitignore` files
+   *
+   * When no pattern matches, a list that starts with a negated pattern
+   * matches the input and any other list does not.
+   */
+  private matchOrdered(
+    input: string,
+    normalizedInput: string,
+    patterns: PreparedPattern[]
+  ): MatchResult {
+    for (let i = patterns.length - 1; i >= 0; i--) {
+      const pattern = patterns[i]!;
+      const result = this.matchPrepared(input, normalizedInput, pattern);
+
+      // Negated patterns report a match when their base pattern does not match
+      if (result.matched !== pattern.isNegated) {
+        return this.decide(input, !pattern.isNegated, pattern, result);
+      }
+    }
+
+    return this.decide(input, patterns[0]!.isNegated);
+  }
+
+  /**
+   * Builds the result for a pattern set from the pattern that decided it
+   */
+  private decide(
+    input: string,
+    matched: boolean,
+    pattern?: PreparedPattern,
+    result?: MatchResult
+  ): MatchResult {
     return {
       matched,
       input,
-      ...(matchedPattern && { pattern: matchedPattern }),
-      score: bestScore,
+      ...(pattern && { pattern: pattern.pattern, patternIndex: pattern.index }),
+      score: matched ? result?.score ?? 0 : 0,
+      ...(matched && result?.segments && { segments: result.segments }),
+      ...(matched && result?.captures && { captures: result.captures }),
+      ...(matched && result?.params && { params: result.params }),
+      ...(matched && result?.metadata && { metadata: result.metadata }),
     };
   }
 
   /**
    * Updates the matching options
+   *
+   * Prepared patterns keep the options they were prepared with, so prepare
+   * them again after changing options.
    */
   public setOptions(options: Partial<MatcherOptions>): void {
-    this.options = { ...this.options, ...options };
+    const explicitOptions = {
+      ...this.explicitOptions,
+      ...definedOptions(options),
+    };
+    assertValidOptions(explicitOptions);
+
+    this.explicitOptions = explicitOptions;
+    this.options = { ...this.options, ...explicitOptions };
   }
 
   /**
@@ -265,4 +656,11 @@ export class MatchingEngine {
   public getOptions(): Required<MatcherOptions> {
     return { ...this.options };
   }
+
+  /**
+   * Gets the cache the engine compiles patterns with
+   */
+  public getCache(): PatternCache {
+    return this.cache;
+  }
 }
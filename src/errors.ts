@@ -0,0 +1,117 @@
+/**
+ * Thrown for a pattern that is not valid in the syntax it is compiled with
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   matcher(files, 'src/(*.ts');
+ * } catch (error) {
+ *   if (error instanceof PatternSyntaxError) {
+ *     console.log(error.offset); //=> 4
+ *     console.log(error.snippet);
+ *     //=> src/(*.ts
+ *     //       ^
+ *   }
+ * }
+ * ```
+ */
+export class PatternSyntaxError extends Error {
+  /**
+   * The invalid pattern
+   */
+  readonly pattern: string;
+
+  /**
+   * Offset in the pattern where the problem was found
+   */
+  readonly offset: number;
+
+  /**
+   * Description of what was expected at `offset`, when there is one
+   */
+  readonly expected: string | undefined;
+
+  /**
+   * Description of the problem without the snippet
+   */
+  readonly reason: string;
+
+  /**
+   * The pattern with a caret under `offset` on the line below
+   */
+  readonly snippet: string;
+
+  constructor(
+    pattern: string,
+    reason: string,
+    offset: number,
+    expected?: string
+  ) {
+    const snippet = `${pattern}\n${" ".repeat(offset)}^`;
+    super(`Invalid pattern: ${reason}\n${snippet}`);
+
+    this.name = "PatternSyntaxError";
+    this.pattern = pattern;
+    this.offset = offset;
+    this.expected = expected;
+    this.reason = reason;
+    this.snippet = snippet;
+  }
+}
+
+/**
+ * Thrown for an option with a value the matcher can't use
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   matcher(files, '*', { fuzzyThreshold: -1 });
+ * } catch (error) {
+ *   if (error instanceof MatcherOptionsError) {
+ *     console.log(error.option); //=> 'fuzzyThreshold'
+ *   }
+ * }
+ * ```
+ */
+export class MatcherOptionsError extends Error {
+  /**
+   * Name of the invalid option, with a dotted path for nested options
+   */
+  readonly option: string;
+
+  /**
+   * The invalid value
+   */
+  readonly value: unknown;
+
+  constructor(option: string, value: unknown, message: string) {
+    super(message);
+
+    this.name = "MatcherOptionsError";
+    this.option = option;
+    this.value = value;
+  }
+}
+
+/**
+ * Thrown when matching recurses deeper than the `maxDepth` option allows
+ */
+export class DepthExceededError extends Error {
+  /**
+   * The `maxDepth` that was exceeded
+   */
+  readonly maxDepth: number;
+
+  /**
+   * Depth that was reached
+   */
+  readonly depth: number;
+
+  constructor(maxDepth: number, depth: number) {
+    super(`Maximum recursion depth (${maxDepth}) exceeded`);
+
+    this.name = "DepthExceededError";
+    this.maxDepth = maxDepth;
+    this.depth = depth;
+  }
+}
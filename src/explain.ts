@@ -0,0 +1,169 @@
+import type {
+  ExplainOption,
+  ExplainReason,
+  MatchExplanation,
+  MatcherOptions,
+  MatcherPattern,
+  MatchResult,
+  PatternExplanation,
+  PreparedPattern,
+} from "./types";
+import { MatchingEngine } from "./engine";
+
+/**
+ * Options whose influence on a pattern's result is reported
+ */
+const EXPLAINED_OPTIONS: readonly ExplainOption[] = [
+  "partialMatch",
+  "wordBoundary",
+  "accentInsensitive",
+  "fuzzyMatch",
+];
+
+/**
+ * Checks whether the base pattern (ignoring negation) matches the input
+ */
+function isHit(
+  engine: MatchingEngine,
+  input: string,
+  pattern: PreparedPattern
+): boolean {
+  const { matched } = engine.matchPrepared(
+    input,
+    engine.normalizeInput(input),
+    pattern
+  );
+  return pattern.isNegated ? !matched : matched;
+}
+
+/**
+ * Describes why a pattern set decided the way it did
+ */
+function describe(
+  result: MatchResult,
+  options: MatcherOptions,
+  patterns: PreparedPattern[]
+): { reason: ExplainReason; message: string } {
+  const decidedBy =
+    result.pattern !== undefined
+      ? `"${result.pattern}" (pattern ${result.patternIndex})`
+      : "";
+
+  if (patterns.length === 0) {
+    return { reason: "no-patterns", message: "No patterns were given" };
+  }
+  if (result.pattern !== undefined) {
+    return result.matched
+      ? { reason: "included", message: `Included by ${decidedBy}` }
+      : { reason: "excluded", message: `Excluded by ${decidedBy}` };
+  }
+  if (options.ordered) {
+    return {
+      reason: "default",
+      message: result.matched
+        ? "No pattern matched; the list starts with a negated pattern, so the input is included"
+        : "No pattern matched",
+    };
+  }
+  if (result.matched) {
+    return {
+      reason: "no-exclusion",
+      message: "Only negated patterns were given and none excluded the input",
+    };
+  }
+  return options.allPatterns
+    ? {
+        reason: "not-all-matched",
+        message: "Not every positive pattern matched (allPatterns)",
+      }
+    : { reason: "no-positive-match", message: "No positive pattern matched" };
+}
+
+/**
+ * Explains how an input is matched against a list of patterns
+ *
+ * For every pattern, reports its normalized form and compiled regex, whether
+ * it matched, its effect on the result and which of `partialMatch`,
+ * `wordBoundary`, `accentInsensitive` and `fuzzyMatch` changed its outcome.
+ * The final decision comes with the deciding pattern and the reason.
+ *
+ * @param input - Input to explain
+ * @param patterns - Pattern or array of patterns to match against
+ * @param options - Matching options
+ * @returns Final decision, its reason and a breakdown per pattern
+ *
+ * @example
+ * ```typescript
+ * const { matched, message, patterns } = explain('vendor/a.js', ['*.js', '!vendor/*']);
+ * matched; //=> false
+ * message; //=> 'Excluded by "!vendor/*" (pattern 1)'
+ * patterns[0].source; //=> '^.*\\.js$'
+ * ```
+ */
+export function explain(
+  input: string,
+  patterns: MatcherPattern,
+  options: MatcherOptions = {}
+): MatchExplanation {
+  const engine = new MatchingEngine(options);
+  const patternSet = engine.preparePatterns(
+    typeof patterns === "string" ? [patterns] : patterns
+  );
+  const result = engine.matchPreparedSet(input, patternSet);
+
+  // The same patterns with each enabled option turned off
+  const alternatives = EXPLAINED_OPTIONS.filter(
+    (option) => options[option]
+  ).map((option) => {
+    const alternative = new MatchingEngine({ ...options, [option]: false });
+    return {
+      option,
+      engine: alternative,
+      patterns: alternative.preparePatterns(
+        patternSet.patterns.map((prepared) => prepared.pattern)
+      ).patterns,
+    };
+  });
+
+  const explained = patternSet.patterns.map(
+    (prepared, position): PatternExplanation => {
+      const matched = isHit(engine, input, prepared);
+      // `prepared.index` is the position in the original list, which differs
+      // from `position` once `strict: false` leaves invalid patterns out
+      const decided = result.patternIndex === prepared.index;
+
+      return {
+        pattern: prepared.pattern,
+        index: prepared.index,
+        normalized: prepared.normalized,
+        negated: prepared.isNegated,
+        ...(prepared.compiled && { source: prepared.compiled.regex.source }),
+        matched,
+        effect: !matched ? "none" : prepared.isNegated ? "exclude" : "include",
+        decided,
+        affectedBy: alternatives
+          .filter(
+            (alternative) =>
+              isHit(
+                alternative.engine,
+                input,
+                alternative.patterns[position]!
+              ) !== matched
+          )
+          .map((alternative) => alternative.option),
+      };
+    }
+  );
+
+  return {
+    input,
+    normalizedInput: engine.normalizeInput(input),
+    matched: result.matched,
+    ...(result.pattern !== undefined && {
+      pattern: result.pattern,
+      patternIndex: result.patternIndex,
+    }),
+    ...describe(result, options, patternSet.patterns),
+    patterns: explained,
+  };
+}
@@ -0,0 +1,212 @@
+import type { MatcherOptions } from "./types";
+
+/**
+ * Simple case foldings (CaseFolding.txt statuses C and S) of characters that
+ * `toLowerCase` leaves alone or maps to a different lowercase form
+ *
+ * Keys are lowercase, since folding runs after lowercasing.
+ */
+const SIMPLE_CASE_FOLDING = new Map<string, string>([
+  ["\u00b5", "\u03bc"], // µ → μ (micro sign)
+  ["\u017f", "s"], // ſ → s (long s)
+  ["\u0345", "\u03b9"], // combining ypogegrammeni → ι
+  ["\u03c2", "\u03c3"], // ς → σ (final sigma)
+  ["\u03d0", "\u03b2"], // ϐ → β
+  ["\u03d1", "\u03b8"], // ϑ → θ
+  ["\u03d5", "\u03c6"], // ϕ → φ
+  ["\u03d6", "\u03c0"], // ϖ → π
+  ["\u03f0", "\u03ba"], // ϰ → κ
+  ["\u03f1", "\u03c1"], // ϱ → ρ
+  ["\u03f5", "\u03b5"], // ϵ → ε
+  ["\u1c80", "\u0432"], // ᲀ → в
+  ["\u1c81", "\u0434"], // ᲁ → д
+  ["\u1c82", "\u043e"], // ᲂ → о
+  ["\u1c83", "\u0441"], // ᲃ → с
+  ["\u1c84", "\u0442"], // ᲄ → т
+  ["\u1c85", "\u0442"], // ᲅ → т
+  ["\u1c86", "\u044a"], // ᲆ → ъ
+  ["\u1c87", "\u0463"], // ᲇ → ѣ
+  ["\u1c88", "\ua64b"], // ᲈ → ꙋ
+  ["\u1e9b", "\u1e61"], // ẛ → ṡ
+  ["\u1fbe", "\u03b9"], // ι → ι (prosgegrammeni)
+]);
+
+/**
+ * Full case foldings (CaseFolding.txt status F) that expand one character
+ * into several, applied on top of the simple foldings
+ */
+const FULL_CASE_FOLDING = new Map<string, string>([
+  ["\u00df", "ss"], // ß → ss (and ẞ, which lowercases to it)
+  ["\u0149", "\u02bcn"], // ŉ → ʼn
+  ["\u01f0", "j\u030c"], // ǰ → j + U+030C
+  ["\u0390", "\u03b9\u0308\u0301"], // ΐ → ι + U+0308 + U+0301
+  ["\u03b0", "\u03c5\u0308\u0301"], // ΰ → υ + U+0308 + U+0301
+  ["\u0587", "\u0565\u0582"], // և → եւ
+  ["\u1e96", "h\u0331"], // ẖ → h + U+0331
+  ["\u1e97", "t\u0308"], // ẗ → t + U+0308
+  ["\u1e98", "w\u030a"], // ẘ → w + U+030A
+  ["\u1e99", "y\u030a"], // ẙ → y + U+030A
+  ["\u1e9a", "a\u02be"], // ẚ → aʾ
+  ["\u1f50", "\u03c5\u0313"], // ὐ → υ + U+0313
+  ["\u1f52", "\u03c5\u0313\u0300"], // ὒ → υ + U+0313 + U+0300
+  ["\u1f54", "\u03c5\u0313\u0301"], // ὔ → υ + U+0313 + U+0301
+  ["\u1f56", "\u03c5\u0313\u0342"], // ὖ → υ + U+0313 + U+0342
+  // ᾀ-ᾇ, ᾐ-ᾗ and ᾠ-ᾧ fold to the letter without ypogegrammeni followed by ι
+  ...greekIotaFoldings(0x1f80, 0x1f00),
+  ...greekIotaFoldings(0x1f90, 0x1f20),
+  ...greekIotaFoldings(0x1fa0, 0x1f60),
+  ["\u1fb2", "\u1f70\u03b9"], // ᾲ → ὰι
+  ["\u1fb3", "\u03b1\u03b9"], // ᾳ → αι (and ᾼ, which lowercases to it)
+  ["\u1fb4", "\u03ac\u03b9"], // ᾴ → άι
+  ["\u1fb6", "\u03b1\u0342"], // ᾶ → α + U+0342
+  ["\u1fb7", "\u03b1\u0342\u03b9"], // ᾷ → α + U+0342 + ι
+  ["\u1fc2", "\u1f74\u03b9"], // ῂ → ὴι
+  ["\u1fc3", "\u03b7\u03b9"], // ῃ → ηι (and ῌ, which lowercases to it)
+  ["\u1fc4", "\u03ae\u03b9"], // ῄ → ήι
+  ["\u1fc6", "\u03b7\u0342"], // ῆ → η + U+0342
+  ["\u1fc7", "\u03b7\u0342\u03b9"], // ῇ → η + U+0342 + ι
+  ["\u1fd2", "\u03b9\u0308\u0300"], // ῒ → ι + U+0308 + U+0300
+  ["\u1fd3", "\u03b9\u0308\u0301"], // ΐ → ι + U+0308 + U+0301
+  ["\u1fd6", "\u03b9\u0342"], // ῖ → ι + U+0342
+  ["\u1fd7", "\u03b9\u0308\u0342"], // ῗ → ι + U+0308 + U+0342
+  ["\u1fe2", "\u03c5\u0308\u0300"], // ῢ → υ + U+0308 + U+0300
+  ["\u1fe3", "\u03c5\u0308\u0301"], // ΰ → υ + U+0308 + U+0301
+  ["\u1fe4", "\u03c1\u0313"], // ῤ → ρ + U+0313
+  ["\u1fe6", "\u03c5\u0342"], // ῦ → υ + U+0342
+  ["\u1fe7", "\u03c5\u0308\u0342"], // ῧ → υ + U+0308 + U+0342
+  ["\u1ff2", "\u1f7c\u03b9"], // ῲ → ὼι
+  ["\u1ff3", "\u03c9\u03b9"], // ῳ → ωι (and ῼ, which lowercases to it)
+  ["\u1ff4", "\u03ce\u03b9"], // ῴ → ώι
+  ["\u1ff6", "\u03c9\u0342"], // ῶ → ω + U+0342
+  ["\u1ff7", "\u03c9\u0342\u03b9"], // ῷ → ω + U+0342 + ι
+  ["\ufb00", "ff"], // ﬀ → ff
+  ["\ufb01", "fi"], // ﬁ → fi
+  ["\ufb02", "fl"], // ﬂ → fl
+  ["\ufb03", "ffi"], // ﬃ → ffi
+  ["\ufb04", "ffl"], // ﬄ → ffl
+  ["\ufb05", "st"], // ﬅ → st
+  ["\ufb06", "st"], // ﬆ → st
+  ["\ufb13", "\u0574\u0576"], // ﬓ → մն
+  ["\ufb14", "\u0574\u0565"], // ﬔ → մե
+  ["\ufb15", "\u0574\u056b"], // ﬕ → մի
+  ["\ufb16", "\u057e\u0576"], // ﬖ → վն
+  ["\ufb17", "\u0574\u056d"], // ﬗ → մխ
+]);
+
+/**
+ * Letters whose diacritic is part of the letter rather than a combining mark,
+ * so that decomposing them leaves nothing to strip
+ */
+const DIACRITIC_FOLDING = new Map<string, string>([
+  ["\u00d8", "O"], // Ø → O
+  ["\u00f8", "o"], // ø → o
+  ["\u0110", "D"], // Đ → D
+  ["\u0111", "d"], // đ → d
+  ["\u0126", "H"], // Ħ → H
+  ["\u0127", "h"], // ħ → h
+  ["\u0131", "i"], // ı → i
+  ["\u013f", "L"], // Ŀ → L
+  ["\u0140", "l"], // ŀ → l
+  ["\u0141", "L"], // Ł → L
+  ["\u0142", "l"], // ł → l
+  ["\u0166", "T"], // Ŧ → T
+  ["\u0167", "t"], // ŧ → t
+  ["\u0180", "b"], // ƀ → b
+  ["\u0197", "I"], // Ɨ → I
+  ["\u019a", "l"], // ƚ → l
+  ["\u01b5", "Z"], // Ƶ → Z
+  ["\u01b6", "z"], // ƶ → z
+  ["\u01e4", "G"], // Ǥ → G
+  ["\u01e5", "g"], // ǥ → g
+  ["\u0244", "U"], // Ʉ → U
+  ["\u0268", "i"], // ɨ → i
+  ["\u0289", "u"], // ʉ → u
+]);
+
+/**
+ * Combining diacritical marks, including the extended and supplement blocks
+ * and half marks; marks that are part of a script's spelling are kept
+ */
+const DIACRITICS =
+  /[\u0300-\u036f\u1ab0-\u1aff\u1dc0-\u1dff\u20d0-\u20ff\ufe20-\ufe2f]/g;
+
+/**
+ * Builds the foldings of the eight Greek letters with ypogegrammeni starting
+ * at `from`, each folding to the plain letter at `to` followed by ι
+ */
+function greekIotaFoldings(from: number, to: number): Array<[string, string]> {
+  return Array.from({ length: 8 }, (_, i) => [
+    String.fromCharCode(from + i),
+    String.fromCharCode(to + i) + "\u03b9",
+  ]);
+}
+
+/**
+ * Builds a regex matching any key of a folding table
+ */
+function tableRegExp(table: Map<string, string>): RegExp {
+  return new RegExp(`[${[...table.keys()].join("")}]`, "g");
+}
+
+const SIMPLE_CASE_FOLDING_REGEX = tableRegExp(SIMPLE_CASE_FOLDING);
+const FULL_CASE_FOLDING_REGEX = tableRegExp(FULL_CASE_FOLDING);
+const DIACRITIC_FOLDING_REGEX = tableRegExp(DIACRITIC_FOLDING);
+
+/**
+ * Folds the case of a string so that strings differing only in case compare
+ * equal
+ *
+ * Lowercases with the rules of `locale` (so `tr` folds `I` to `ı` and `İ` to
+ * `i`), then applies simple case folding. With `caseFolding: 'full'`,
+ * characters that fold to several characters are expanded too: `ß` to `ss`,
+ * `ﬁ` to `fi`, `ᾳ` to `αι`.
+ *
+ * @example
+ * ```typescript
+ * foldCase('Straße', { caseFolding: 'full' }); //=> 'strasse'
+ * foldCase('ΣΊΣΥΦΟΣ') === foldCase('σίσυφος'); //=> true
+ * foldCase('DİYARBAKIR', { locale: 'tr' }); //=> 'diyarbakır'
+ * ```
+ */
+export function foldCase(
+  input: string,
+  options: Pick<MatcherOptions, "locale" | "caseFolding"> = {}
+): string {
+  const lowercased =
+    options.locale !== undefined
+      ? input.toLocaleLowerCase(options.locale)
+      : input.toLowerCase();
+  const folded = lowercased.replace(
+    SIMPLE_CASE_FOLDING_REGEX,
+    (char) => SIMPLE_CASE_FOLDING.get(char) ?? char
+  );
+
+  return options.caseFolding === "full"
+    ? folded.replace(
+        FULL_CASE_FOLDING_REGEX,
+        (char) => FULL_CASE_FOLDING.get(char) ?? char
+      )
+    : folded;
+}
+
+/**
+ * Removes diacritics from a string, leaving it decomposed (NFD)
+ *
+ * Combining diacritical marks are stripped after canonical decomposition, and
+ * letters with a built-in stroke or bar (`đ`, `ł`, `ø`, `ı`, ...) are replaced
+ * by their base letter.
+ *
+ * @example
+ * ```typescript
+ * removeDiacritics('Đặng Łódź'); //=> 'Dang Lodz'
+ * ```
+ */
+export function removeDiacritics(input: string): string {
+  return input
+    .normalize("NFD")
+    .replace(DIACRITICS, "")
+    .replace(
+      DIACRITIC_FOLDING_REGEX,
+      (char) => DIACRITIC_FOLDING.get(char) ?? char
+    );
+}
@@ -0,0 +1,723 @@
+import type {
+  PatternFragment,
+  PatternFragmentType,
+  PatternIssue,
+} from "./types";
+import { PatternSyntaxError } from "./errors";
+
+/**
+ * Path separator used by glob patterns
+ */
+const GLOB_SEPARATOR = "/";
+
+/**
+ * Regex source for the path separator, escaped the way `RegExp#source` escapes it
+ */
+const SEPARATOR_SOURCE = "\\/";
+
+/**
+ * Regex fragment matching any run of characters within a single path segment
+ */
+const SEGMENT_STAR = "[^/]*";
+
+/**
+ * Regex fragment matching a single character within a path segment
+ */
+const SEGMENT_CHAR = "[^/]";
+
+/**
+ * Lookahead keeping wildcards from matching a leading dot
+ */
+const NO_DOT = "(?!\\.)";
+
+/**
+ * Characters that start an extglob group when followed by `(`
+ */
+const EXTGLOB_PREFIXES = "@!+*?";
+
+/**
+ * Maximum number of patterns a single brace expression may expand to
+ */
+const MAX_BRACE_EXPANSION = 10000;
+
+/**
+ * Options controlling glob compilation
+ */
+export interface GlobOptions {
+  /**
+   * Allow wildcards at the start of a segment to match a leading dot
+   * @default true
+   */
+  dot?: boolean;
+
+  /**
+   * Recognize classes, braces and extglobs; otherwise only `*`, `?` and `\\` escapes are special
+   * @default true
+   */
+  extended?: boolean;
+
+  /**
+   * Treat `/` as a path separator that `*` and `?` never match
+   * @default true
+   */
+  segments?: boolean;
+}
+
+/**
+ * Escapes every regex special character, including glob wildcards
+ */
+export function escapeLiteral(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Finds the index of the bracket closing the one at `start`, honoring escapes and nesting
+ */
+function findClosing(
+  pattern: string,
+  start: number,
+  open: string,
+  close: string
+): number {
+  let depth = 0;
+
+  for (let i = start; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "\\") {
+      i++;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Splits a string on a delimiter that is not nested in braces or parentheses
+ */
+function splitTopLevel(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!;
+
+    if (char === "\\") {
+      current += char + (value[i + 1] ?? "");
+      i++;
+      continue;
+    }
+
+    if (char === "{" || char === "(") {
+      depth++;
+    } else if (char === "}" || char === ")") {
+      depth--;
+    } else if (char === delimiter && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * A `{start..end[..step]}` sequence, with values as numbers or character codes
+ */
+interface Sequence {
+  start: number;
+  end: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+/**
+ * Parses a `{start..end[..step]}` sequence body, or returns null if it is not a sequence
+ */
+function parseSequence(body: string): Sequence | null {
+  const numeric = /^(-?\d+)\.\.(-?\d+)(?:\.\.(-?\d+))?$/.exec(body);
+  if (numeric) {
+    const [, startText, endText, stepText] = numeric;
+    const padded = /^-?0\d/.test(startText!) || /^-?0\d/.test(endText!);
+    const width = Math.max(startText!.length, endText!.length);
+
+    return {
+      start: parseInt(startText!, 10),
+      end: parseInt(endText!, 10),
+      step: Math.abs(parseInt(stepText ?? "1", 10)) || 1,
+      format: (value) => {
+        const text = String(Math.abs(value));
+        const sign = value < 0 ? "-" : "";
+        return padded
+          ? sign + text.padStart(width - sign.length, "0")
+          : sign + text;
+      },
+    };
+  }
+
+  const alpha = /^([a-zA-Z])\.\.([a-zA-Z])(?:\.\.(-?\d+))?$/.exec(body);
+  if (alpha) {
+    return {
+      start: alpha[1]!.charCodeAt(0),
+      end: alpha[2]!.charCodeAt(0),
+      step: Math.abs(parseInt(alpha[3] ?? "1", 10)) || 1,
+      format: (code) => String.fromCharCode(code),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reports a sequence in the brace body at `offset` that expands past {@link MAX_BRACE_EXPANSION}
+ */
+function findSequenceIssue(
+  body: string,
+  offset: number
+): PatternIssue | undefined {
+  const sequence = parseSequence(body);
+  if (!sequence) {
+    return undefined;
+  }
+
+  const { start, end, step } = sequence;
+  const length = Math.floor(Math.abs(end - start) / step) + 1;
+
+  return length > MAX_BRACE_EXPANSION
+    ? {
+        message: `Brace sequence at position ${offset} expands to ${length} patterns`,
+        offset,
+        expected: `at most ${MAX_BRACE_EXPANSION} patterns`,
+      }
+    : undefined;
+}
+
+/**
+ * Expands a `{start..end[..step]}` sequence body, or returns null if it is not a sequence
+ */
+function expandSequence(body: string): string[] | null {
+  const sequence = parseSequence(body);
+  if (!sequence) {
+    return null;
+  }
+
+  const { start, end, step, format } = sequence;
+  const direction = start <= end ? 1 : -1;
+  const values: string[] = [];
+
+  for (
+    let value = start;
+    direction > 0 ? value <= end : value >= end;
+    value += step * direction
+  ) {
+    values.push(format(value));
+  }
+
+  return values;
+}
+
+/**
+ * Expands brace expressions into the list of patterns they describe
+ *
+ * @example
+ * ```typescript
+ * expandBraces('*.{js,ts}');
+ * //=> ['*.js', '*.ts']
+ *
+ * expandBraces('file{1..3}');
+ * //=> ['file1', 'file2', 'file3']
+ * ```
+ */
+export function expandBraces(pattern: string): string[] {
+  const issue = findBraceIssue(pattern);
+  if (issue) {
+    throw new PatternSyntaxError(
+      pattern,
+      issue.message,
+      issue.offset,
+      issue.expected
+    );
+  }
+
+  const expanded = expandAll(pattern);
+  if (!expanded) {
+    throw new PatternSyntaxError(
+      pattern,
+      `Brace expansion exceeds ${MAX_BRACE_EXPANSION} patterns`,
+      Math.max(pattern.indexOf("{"), 0),
+      `at most ${MAX_BRACE_EXPANSION} patterns`
+    );
+  }
+
+  return expanded;
+}
+
+/**
+ * Expands every brace expression, or returns null past {@link MAX_BRACE_EXPANSION} patterns
+ */
+function expandAll(pattern: string): string[] | null {
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+
+    if (char !== "{") {
+      continue;
+    }
+
+    const close = findClosing(pattern, i, "{", "}");
+    if (close === -1) {
+      return [pattern];
+    }
+
+    const body = pattern.slice(i + 1, close);
+    const alternatives = splitTopLevel(body, ",");
+    const options =
+      alternatives.length > 1 ? alternatives : expandSequence(body);
+
+    // Braces without a comma or sequence are literal, e.g. `{a}`
+    if (!options) {
+      continue;
+    }
+
+    const prefix = pattern.slice(0, i);
+    const suffixes = expandAll(pattern.slice(close + 1));
+    if (!suffixes) {
+      return null;
+    }
+
+    const expanded: string[] = [];
+
+    for (const option of options) {
+      const heads = expandAll(prefix + option);
+      if (!heads) {
+        return null;
+      }
+
+      for (const head of heads) {
+        for (const suffix of suffixes) {
+          expanded.push(head + suffix);
+          if (expanded.length > MAX_BRACE_EXPANSION) {
+            return null;
+          }
+        }
+      }
+    }
+
+    return expanded;
+  }
+
+  return [pattern];
+}
+
+/**
+ * Reports a brace sequence that expands past {@link MAX_BRACE_EXPANSION} patterns
+ */
+function findBraceIssue(pattern: string): PatternIssue | undefined {
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+
+    if (char !== "{") {
+      continue;
+    }
+
+    const close = findClosing(pattern, i, "{", "}");
+    const issue =
+      close === -1
+        ? undefined
+        : findSequenceIssue(pattern.slice(i + 1, close), i);
+    if (issue) {
+      return issue;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compiles a character class starting at `start`, or returns null if it is not closed
+ */
+function compileClass(
+  pattern: string,
+  start: number
+): { source: string; end: number } | null {
+  let i = start + 1;
+  let negated = false;
+
+  if (pattern[i] === "!" || pattern[i] === "^") {
+    negated = true;
+    i++;
+  }
+
+  let body = "";
+
+  // A `]` right after the opening bracket is part of the class
+  if (pattern[i] === "]") {
+    body += "\\]";
+    i++;
+  }
+
+  for (; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    if (char === "]") {
+      return {
+        source: negated ? `(?!${SEPARATOR_SOURCE})[^${body}]` : `[${body}]`,
+        end: i,
+      };
+    }
+
+    if (char === "\\") {
+      body += escapeLiteral(pattern[i + 1] ?? "\\");
+      i++;
+    } else if (char === "-") {
+      body += "-";
+    } else {
+      body += escapeLiteral(char);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reports a descending range in the closed character class starting at `start`
+ */
+function findClassIssue(
+  pattern: string,
+  start: number
+): PatternIssue | undefined {
+  const members: { char: string; offset: number; dash: boolean }[] = [];
+  let i = start + 1;
+
+  if (pattern[i] === "!" || pattern[i] === "^") {
+    i++;
+  }
+
+  // A `]` right after the opening bracket is part of the class
+  if (pattern[i] === "]") {
+    members.push({ char: "]", offset: i, dash: false });
+    i++;
+  }
+
+  for (; pattern[i] !== "]"; i++) {
+    const char = pattern[i]!;
+
+    if (char === "\\") {
+      members.push({ char: pattern[i + 1] ?? "\\", offset: i, dash: false });
+      i++;
+    } else {
+      members.push({ char, offset: i, dash: char === "-" });
+    }
+  }
+
+  for (let k = 0; k < members.length; k++) {
+    const from = members[k]!;
+    const to = members[k + 2];
+
+    if (!members[k + 1]?.dash || !to) {
+      continue;
+    }
+
+    if (from.char.charCodeAt(0) > to.char.charCodeAt(0)) {
+      return {
+        message: `Invalid character class range "${from.char}-${to.char}" at position ${from.offset}`,
+        offset: from.offset,
+        expected: `a range ending at or after "${from.char}"`,
+      };
+    }
+    k += 2;
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks whether the `**` at `index` spans a whole path segment
+ */
+function isGlobstar(pattern: string, index: number): boolean {
+  const before = index === 0 || pattern[index - 1] === GLOB_SEPARATOR;
+  const after =
+    index + 2 === pattern.length || pattern[index + 2] === GLOB_SEPARATOR;
+  return before && after;
+}
+
+/**
+ * Joins the regex source of a list of fragments
+ */
+function joinSources(fragments: readonly PatternFragment[]): string {
+  return fragments.map((fragment) => fragment.source).join("");
+}
+
+/**
+ * Compiles the body of a brace expression into an alternation, or returns null if it is literal
+ */
+function compileBrace(
+  body: string,
+  options: GlobOptions,
+  atSegmentStart: boolean
+): string | null {
+  const alternatives = splitTopLevel(body, ",");
+
+  if (alternatives.length > 1) {
+    const sources = alternatives.map((alternative) =>
+      joinSources(
+        compileFragments(alternative, 0, false, options, atSegmentStart)
+      )
+    );
+    return `(?:${sources.join("|")})`;
+  }
+
+  const sequence = expandSequence(body);
+  return sequence ? `(?:${sequence.map(escapeLiteral).join("|")})` : null;
+}
+
+/**
+ * Compiles a brace-free glob pattern into regex fragments (without anchors)
+ */
+function compileFragments(
+  pattern: string,
+  offset: number,
+  atEnd: boolean,
+  options: GlobOptions,
+  atSegmentStart: boolean
+): PatternFragment[] {
+  const extended = options.extended !== false;
+  const segments = options.segments !== false;
+  const hideDots = segments && options.dot === false;
+  const star = segments ? SEGMENT_STAR : ".*";
+  const fragments: PatternFragment[] = [];
+
+  const push = (
+    type: PatternFragmentType,
+    start: number,
+    end: number,
+    source: string
+  ): void => {
+    const last = fragments[fragments.length - 1];
+
+    // Consecutive literal characters form a single token
+    if (type === "literal" && last?.type === "literal") {
+      last.token += pattern.slice(start, end);
+      last.end = offset + end;
+      last.source += source;
+      return;
+    }
+
+    fragments.push({
+      type,
+      token: pattern.slice(start, end),
+      start: offset + start,
+      end: offset + end,
+      source,
+    });
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    const next = pattern[i + 1];
+    const segmentStart =
+      i === 0 ? atSegmentStart : pattern[i - 1] === GLOB_SEPARATOR;
+
+    // Wildcards at the start of a segment must not expose dotfiles
+    const dotGuard = hideDots && segmentStart ? NO_DOT : "";
+
+    if (char === "\\") {
+      push("literal", i, i + 2, escapeLiteral(next ?? "\\"));
+      i++;
+      continue;
+    }
+
+    if (extended && EXTGLOB_PREFIXES.includes(char) && next === "(") {
+      const close = findClosing(pattern, i + 1, "(", ")");
+
+      if (close !== -1) {
+        const alternatives = splitTopLevel(pattern.slice(i + 2, close), "|")
+          .map((alternative) =>
+            joinSources(compileFragments(alternative, 0, false, options, false))
+          )
+          .join("|");
+        const group = `(?:${alternatives})`;
+        let source: string;
+
+        if (char === "!") {
+          // The rest of the pattern is part of the lookahead so that
+          // `!(foo).js` rejects `foo.js` but accepts `bar.js`
+          const rest = joinSources(
+            compileFragments(pattern.slice(close + 1), 0, atEnd, options, false)
+          );
+          source = `(?:(?!${group}${rest}${atEnd ? "$" : ""})${star}?)`;
+        } else {
+          source = group + (char === "@" ? "" : char);
+        }
+
+        push("extglob", i, close + 1, dotGuard + source);
+        i = close;
+        continue;
+      }
+    }
+
+    if (char === "*") {
+      if (segments && next === "*" && isGlobstar(pattern, i)) {
+        const segment = hideDots ? NO_DOT + SEGMENT_STAR : SEGMENT_STAR;
+
+        if (pattern[i + 2] === GLOB_SEPARATOR) {
+          // `**/` matches zero or more leading directories
+          push("globstar", i, i + 3, `(?:${segment}${SEPARATOR_SOURCE})*`);
+          i += 2;
+        } else {
+          push(
+            "globstar",
+            i,
+            i + 2,
+            hideDots ? `${segment}(?:${SEPARATOR_SOURCE}${segment})*` : ".*"
+          );
+          i += 1;
+        }
+        continue;
+      }
+
+      // Collapse runs of stars into a single wildcard
+      let end = i + 1;
+      while (pattern[end] === "*") {
+        end++;
+      }
+      push("star", i, end, dotGuard + star);
+      i = end - 1;
+      continue;
+    }
+
+    if (char === "?") {
+      push("char", i, i + 1, dotGuard + (segments ? SEGMENT_CHAR : "."));
+      continue;
+    }
+
+    if (extended && char === "[") {
+      const compiled = compileClass(pattern, i);
+      if (compiled) {
+        push("class", i, compiled.end + 1, dotGuard + compiled.source);
+        i = compiled.end;
+        continue;
+      }
+    }
+
+    if (extended && char === "{") {
+      const close = findClosing(pattern, i, "{", "}");
+      const issue =
+        close === -1
+          ? undefined
+          : findSequenceIssue(pattern.slice(i + 1, close), i);
+      if (issue) {
+        throw new PatternSyntaxError(
+          pattern,
+          issue.message,
+          issue.offset,
+          issue.expected
+        );
+      }
+
+      const source =
+        close === -1
+          ? null
+          : compileBrace(pattern.slice(i + 1, close), options, segmentStart);
+
+      if (source !== null) {
+        push("brace", i, close + 1, source);
+        i = close;
+        continue;
+      }
+    }
+
+    push("literal", i, i + 1, escapeLiteral(char));
+  }
+
+  return fragments;
+}
+
+/**
+ * Compiles a pattern (without negation prefix) into regex fragments
+ *
+ * Every fragment records the pattern token it came from, so joining the
+ * fragment sources gives the regex source (without anchors).
+ *
+ * @param pattern - Pattern to compile
+ * @param options - Glob options
+ * @param offset - Offset of the pattern within the original pattern, e.g. 1 after a `!`
+ */
+export function compileGlob(
+  pattern: string,
+  options: GlobOptions = {},
+  offset: number = 0
+): PatternFragment[] {
+  return compileFragments(pattern, offset, true, options, true);
+}
+
+/**
+ * Converts a glob pattern (without negation prefix) into regex source (without anchors)
+ *
+ * Supports `*`, `?`, `**` globstar, `[a-z]` and `[!abc]` classes, `{a,b}` and
+ * `{1..5}` braces, and `@()`, `!()`, `+()`, `*()` and `?()` extglobs.
+ */
+export function globToRegExpSource(
+  pattern: string,
+  options: GlobOptions = {}
+): string {
+  return joinSources(compileGlob(pattern, options));
+}
+
+/**
+ * Checks glob syntax and returns the issue with a malformed pattern
+ */
+export function validateGlob(pattern: string): PatternIssue | undefined {
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+
+    if (EXTGLOB_PREFIXES.includes(char) && pattern[i + 1] === "(") {
+      if (findClosing(pattern, i + 1, "(", ")") === -1) {
+        return {
+          message: `Unclosed extglob group at position ${i}`,
+          offset: i,
+          expected: '")"',
+        };
+      }
+    }
+
+    if (char === "[") {
+      const compiled = compileClass(pattern, i);
+      if (compiled) {
+        const issue = findClassIssue(pattern, i);
+        if (issue) {
+          return issue;
+        }
+        i = compiled.end;
+      }
+    }
+  }
+
+  return findBraceIssue(pattern);
+}
@@ -0,0 +1,256 @@
+import type {
+  IgnoreMatcher,
+  IgnoreOptions,
+  IgnoreRule,
+  MatcherInput,
+} from "./types";
+import { compilePattern, toPosixPath } from "./utils";
+
+/**
+ * Characters that only have a meaning in glob syntax (braces and extglob
+ * groups) and are literal in ignore files
+ */
+const GLOB_ONLY_CHARS = new Set(["{", "}", "(", ")"]);
+
+/**
+ * Normalizes a path to the relative, `/`-separated form rules are matched
+ * against
+ */
+function normalizePath(path: string): string {
+  return toPosixPath(path)
+    .replace(/^(\.\/)+/, "")
+    .replace(/^\/+/, "");
+}
+
+/**
+ * Normalizes the directory an ignore file lives in to `dir/sub` form
+ */
+function normalizeBase(base: string): string {
+  return normalizePath(base).replace(/\/+$/, "");
+}
+
+/**
+ * Escapes glob-only characters outside character classes so the compiled
+ * glob treats them literally, as git does
+ */
+function escapeGlobOnly(pattern: string): string {
+  let result = "";
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    if (char === "\\") {
+      result += pattern.slice(i, i + 2);
+      i++;
+    } else if (inClass) {
+      result += char;
+      inClass = char !== "]";
+    } else if (char === "[") {
+      result += char;
+      inClass = true;
+    } else {
+      result += GLOB_ONLY_CHARS.has(char) ? `\\${char}` : char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Removes trailing spaces unless they are escaped with a backslash
+ */
+function trimTrailingSpaces(line: string): string {
+  let end = line.length;
+
+  while (end > 0 && line[end - 1] === " ") {
+    let backslashes = 0;
+    while (line[end - 2 - backslashes] === "\\") {
+      backslashes++;
+    }
+    // An odd number of backslashes escapes the space
+    if (backslashes % 2 === 1) {
+      break;
+    }
+    end--;
+  }
+
+  return line.slice(0, end);
+}
+
+/**
+ * Parses the text of a `.gitignore`, `.npmignore` or `.dockerignore` file
+ *
+ * Blank lines and `#` comments are skipped, unescaped trailing spaces are
+ * removed and `\#` and `\!` start a literal `#` or `!`. A leading `!` negates
+ * a rule, a trailing `/` makes it match directories only, and a `/` at the
+ * start or in the middle anchors it to `base`; other rules match at any depth.
+ *
+ * @param text - Contents of the ignore file
+ * @param base - Directory of the ignore file, relative to the root
+ * @returns Rules in file order
+ *
+ * @example
+ * ```typescript
+ * parseIgnore('# build output\n/dist\n*.log\n!keep.log\n');
+ * //=> [{ pattern: '/dist', glob: 'dist', anchored: true, ... }, ...]
+ * ```
+ */
+export function parseIgnore(text: string, base: string = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  const directory = normalizeBase(base);
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = trimTrailingSpaces(rawLine);
+
+    if (line === "" || line.startsWith("#")) {
+      return;
+    }
+
+    const negated = line.startsWith("!");
+    let body = negated ? line.slice(1) : line;
+
+    const directoryOnly = body.endsWith("/");
+    if (directoryOnly) {
+      body = body.slice(0, -1);
+    }
+
+    const anchored = body.includes("/");
+    body = body.replace(/^\//, "");
+
+    if (body === "") {
+      return;
+    }
+
+    const escaped = escapeGlobOnly(body);
+
+    rules.push({
+      pattern: line,
+      line: index + 1,
+      base: directory,
+      negated,
+      directoryOnly,
+      anchored,
+      glob: anchored ? escaped : `**/${escaped}`,
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * Creates a matcher from ignore-file text, with gitignore semantics
+ *
+ * The last rule that matches a path decides whether it is ignored. Files added
+ * for subdirectories apply to paths below that directory and take precedence
+ * over files higher up. As in git, a path inside an ignored directory stays
+ * ignored even if a later rule would re-include it. Paths ending in `/` are
+ * treated as directories.
+ *
+ * @param source - Ignore-file text or lines for the root directory
+ * @param options - Ignore options
+ * @returns Ignore matcher with `add`, `ignores` and `filter` methods
+ *
+ * @example
+ * ```typescript
+ * const ig = createIgnore('node_modules/\n*.log\n!important.log');
+ * ig.add('*.tmp', 'packages/app');
+ *
+ * ig.ignores('node_modules/react/index.js'); //=> true
+ * ig.ignores('important.log'); //=> false
+ * ig.filter(['src/a.ts', 'debug.log', 'packages/app/x.tmp']);
+ * //=> ['src/a.ts']
+ * ```
+ */
+export function createIgnore(
+  source: string | readonly string[] = "",
+  options: IgnoreOptions = {}
+): IgnoreMatcher {
+  const caseSensitive = options.caseSensitive ?? true;
+  const compiled: Array<{ rule: IgnoreRule; regex: RegExp }> = [];
+  const directoryCache = new Map<string, boolean>();
+
+  /**
+   * Returns whether the last rule matching `path` ignores it
+   */
+  const decide = (path: string, isDirectory: boolean): boolean => {
+    for (let i = compiled.length - 1; i >= 0; i--) {
+      const { rule, regex } = compiled[i]!;
+
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.base !== "" && !path.startsWith(`${rule.base}/`)) {
+        continue;
+      }
+
+      const relative =
+        rule.base === "" ? path : path.slice(rule.base.length + 1);
+      if (regex.test(relative)) {
+        return !rule.negated;
+      }
+    }
+
+    return false;
+  };
+
+  const isDirectoryIgnored = (path: string): boolean => {
+    let ignored = directoryCache.get(path);
+    if (ignored === undefined) {
+      ignored = decide(path, true);
+      directoryCache.set(path, ignored);
+    }
+    return ignored;
+  };
+
+  const ignores = (path: string): boolean => {
+    const normalized = normalizePath(path);
+    const isDirectory = normalized.endsWith("/");
+    const segments = normalized.split("/").filter(Boolean);
+
+    // Nothing inside an ignored directory can be re-included
+    for (let i = 1; i < segments.length; i++) {
+      if (isDirectoryIgnored(segments.slice(0, i).join("/"))) {
+        return true;
+      }
+    }
+
+    return segments.length > 0 && decide(segments.join("/"), isDirectory);
+  };
+
+  const matcher: IgnoreMatcher = {
+    get rules(): readonly IgnoreRule[] {
+      return compiled.map(({ rule }) => rule);
+    },
+    add(text: string | readonly string[], base: string = ""): IgnoreMatcher {
+      const rules = parseIgnore(
+        typeof text === "string" ? text : text.join("\n"),
+        base
+      );
+
+      for (const rule of rules) {
+        compiled.push({
+          rule,
+          regex: compilePattern(rule.glob, { syntax: "glob", caseSensitive })
+            .regex,
+        });
+      }
+
+      // Deeper ignore files take precedence, whatever order they are added in
+      compiled.sort(
+        (a, b) =>
+          a.rule.base.split("/").filter(Boolean).length -
+          b.rule.base.split("/").filter(Boolean).length
+      );
+      directoryCache.clear();
+      return matcher;
+    },
+    ignores,
+    filter(paths: MatcherInput): string[] {
+      const list = typeof paths === "string" ? [paths] : paths;
+      return list.filter((path) => !ignores(path));
+    },
+  };
+
+  return matcher.add(source);
+}
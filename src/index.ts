@@ -12,13 +12,39 @@
 export {
   matcher,
   isMatch,
+  capture,
+  replace,
   matchAdvanced,
   fuzzyMatch,
   matchIgnoreCase,
   partialMatch,
   segmentMatch,
+  createMatcher,
+  createBulkMatcher,
+  matchRoute,
+  rankRoutes,
 } from "./matcher";
 
+// Lazy and streaming matching
+export {
+  matchIterable,
+  matchAsyncIterable,
+  matchStream,
+  matchWebStream,
+} from "./stream";
+
+// Worker-thread matching
+export { matchParallel } from "./parallel";
+
+// Match statistics
+export { SimplePerformanceMonitor } from "./stats";
+
+// Match explanations for debugging
+export { explain } from "./explain";
+
+// Ranked fuzzy search
+export { search, subsequenceMatch, indicesToRanges } from "./search";
+
 // Types
 export type {
   MatcherInput,
@@ -27,22 +53,118 @@ export type {
   MatchResult,
   MatchStats,
   PerformanceMonitor,
+  StatsOptions,
+  CompiledMatcher,
+  BulkMatcher,
+  AsyncMatchOptions,
+  StreamMatchOptions,
+  ParallelMatchOptions,
+  CompiledRegExp,
+  SearchOptions,
+  SearchResult,
+  MatcherKey,
+  ItemOptions,
+  BuiltInFuzzyAlgorithm,
+  FuzzyAlgorithm,
+  FuzzyCriteria,
+  DistanceFunction,
+  SimilarityScorer,
+  KeyedMatchResult,
+  PatternCacheEntry,
+  PatternCacheOptions,
+  PatternCacheStats,
+  PatternFragment,
+  PatternFragmentType,
+  PatternToken,
+  PatternTokenType,
+  PatternIssue,
+  PatternValidation,
+  PatternDiagnostic,
+  NormalizedText,
+  OptionValueType,
+  OptionSchema,
+  MatcherOptionsSchema,
+  OptionConflict,
+  OptionIssue,
+  OptionsValidation,
+  MatchList,
+  ExplainOption,
+  ExplainReason,
+  PatternExplanation,
+  MatchExplanation,
+  IgnoreRule,
+  IgnoreOptions,
+  IgnoreMatcher,
+  RouteSegment,
+  RouteParams,
+  RouteMatch,
 } from "./types";
 
 // Utility functions for advanced use cases
 export {
   escapeRegExp,
   normalizeString,
+  normalizeWithOffsets,
+  originalRange,
   levenshteinDistance,
   calculateSimilarity,
+  resolveFuzzyCriteria,
   splitIntoSegments,
+  toPosixPath,
+  getBasename,
   validatePattern,
+  isNegatedPattern,
+  tokenizePattern,
+  getLiteralText,
+  escapePattern,
+  makeRe,
+  toRegExp,
+  captureFragments,
   clearPatternCache,
   getCacheStats,
 } from "./utils";
 
+// Fuzzy similarity algorithms
+export {
+  damerauLevenshteinDistance,
+  jaroWinklerSimilarity,
+  diceCoefficient,
+  soundex,
+  doubleMetaphone,
+  registerFuzzyAlgorithm,
+  unregisterFuzzyAlgorithm,
+  getFuzzyAlgorithm,
+} from "./similarity";
+
+// Unicode folding
+export { foldCase, removeDiacritics } from "./folding";
+
+// Ignore files
+export { parseIgnore, createIgnore } from "./ignore";
+
+// Route parsing
+export { parseRoute, routeSpecificity } from "./route";
+
+// Glob helpers
+export { expandBraces } from "./glob";
+
+// Option validation
+export {
+  validateOptions,
+  matcherOptionsSchema,
+  optionConflicts,
+} from "./options";
+
+// Error types
+export {
+  PatternSyntaxError,
+  MatcherOptionsError,
+  DepthExceededError,
+} from "./errors";
+
 // Matching engine for custom implementations
 export { MatchingEngine } from "./engine";
+export { PatternCache } from "./cache";
 
 // Default export for convenience (same as named export 'matcher')
 export { matcher as default } from "./matcher";
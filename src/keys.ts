@@ -0,0 +1,134 @@
+import type { ItemOptions, MatcherKey } from "./types";
+import { MatcherOptionsError } from "./errors";
+
+/**
+ * Text read from an item, along with the key it came from
+ */
+export interface ItemValue {
+  /**
+   * Property path the value was read from (undefined for plain strings and accessors)
+   */
+  key?: string;
+
+  /**
+   * Text to match
+   */
+  value: string;
+
+  /**
+   * Relative weight of the key (0-1)
+   */
+  weight: number;
+}
+
+/**
+ * Reads a dotted property path such as `author.name` from an item
+ *
+ * @example
+ * ```typescript
+ * getPath({ author: { name: 'Jane' } }, 'author.name');
+ * //=> 'Jane'
+ * ```
+ */
+export function getPath(item: unknown, path: string): unknown {
+  let value = item;
+
+  for (const key of path.split(".")) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+/**
+ * Converts a property value into the strings it contributes
+ */
+function toStrings(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return [String(value)];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(toStrings);
+  }
+  return [];
+}
+
+/**
+ * Checks whether options ask for items to be read through keys or an accessor
+ */
+export function hasItemOptions<T>(options: ItemOptions<T>): boolean {
+  return (
+    (options.keys !== undefined && options.keys.length > 0) ||
+    options.accessor !== undefined
+  );
+}
+
+/**
+ * Separates item options from the remaining matcher options
+ */
+export function splitItemOptions<T, O extends ItemOptions<T>>(
+  options: O
+): [ItemOptions<T>, Omit<O, keyof ItemOptions<T>>] {
+  const { keys, accessor, ...rest } = options;
+  return [{ keys, accessor }, rest];
+}
+
+/**
+ * Returns the texts to match for an item
+ *
+ * Strings are used as they are. Objects are read through `accessor` or `keys`;
+ * key weights are scaled so that the heaviest key has weight 1.
+ */
+export function getItemValues<T>(
+  item: T,
+  options: ItemOptions<T> = {}
+): ItemValue[] {
+  if (options.accessor) {
+    return toStrings(options.accessor(item)).map((value) => ({
+      value,
+      weight: 1,
+    }));
+  }
+
+  const keys = options.keys ?? [];
+  if (keys.length === 0) {
+    return typeof item === "string" ? [{ value: item, weight: 1 }] : [];
+  }
+
+  const normalized = keys.map(normalizeKey);
+  const maxWeight = Math.max(...normalized.map((key) => key.weight));
+
+  return normalized.flatMap(({ name, weight }) =>
+    toStrings(getPath(item, name)).map((value) => ({
+      key: name,
+      value,
+      weight: maxWeight > 0 ? weight / maxWeight : 0,
+    }))
+  );
+}
+
+/**
+ * Expands a key into its name and weight
+ */
+function normalizeKey(key: MatcherKey): { name: string; weight: number } {
+  if (typeof key === "string") {
+    return { name: key, weight: 1 };
+  }
+
+  const weight = key.weight ?? 1;
+  if (!(weight >= 0)) {
+    throw new MatcherOptionsError(
+      "keys",
+      key,
+      `Key weight must be a non-negative number: ${key.name}`
+    );
+  }
+
+  return { name: key.name, weight };
+}
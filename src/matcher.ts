@@ -5,42 +5,22 @@ import type {
   MatchResult,
   MatchStats,
   PerformanceMonitor,
+  CompiledMatcher,
+  BulkMatcher,
+  ItemOptions,
+  KeyedMatchResult,
+  RouteMatch,
+  StatsOptions,
+  MatchList,
+  PatternDiagnostic,
+  PreparedPatternSet,
 } from "./types";
 import { MatchingEngine } from "./engine";
-
-/**
- * Performance monitor implementation
- */
-class SimplePerformanceMonitor implements PerformanceMonitor {
-  private startTime: number = 0;
-  private endTime: number = 0;
-  private stats: MatchStats = {
-    totalInputs: 0,
-    totalPatterns: 0,
-    matchCount: 0,
-    processingTime: 0,
-  };
-
-  start(): void {
-    this.startTime = Date.now();
-  }
-
-  end(): number {
-    this.endTime = Date.now();
-    this.stats.processingTime = this.endTime - this.startTime;
-    return this.stats.processingTime;
-  }
-
-  getStats(): MatchStats {
-    return { ...this.stats };
-  }
-
-  updateStats(inputs: number, patterns: number, matches: number): void {
-    this.stats.totalInputs += inputs;
-    this.stats.totalPatterns += patterns;
-    this.stats.matchCount += matches;
-  }
-}
+import { compareSpecificity, routeSpecificity } from "./route";
+import { BulkPatternSet } from "./bulk";
+import { getItemValues, hasItemOptions, splitItemOptions } from "./keys";
+import { StatsCollector, splitStatsOptions } from "./stats";
+import { now } from "./utils";
 
 /**
  * Converts input to array format for consistent processing
@@ -62,6 +42,66 @@ function normalizePatterns(patterns: MatcherPattern): string[] {
   return [patterns as string];
 }
 
+/**
+ * Attaches the invalid patterns a non-strict call left out to its results
+ */
+function withDiagnostics<T>(
+  results: T[],
+  options: MatcherOptions,
+  diagnostics: PatternDiagnostic[] = []
+): MatchList<T> {
+  if (options.strict === false) {
+    Object.defineProperty(results, "diagnostics", {
+      value: diagnostics,
+      enumerable: false,
+    });
+  }
+  return results;
+}
+
+/**
+ * Matches items through their keys or accessor, keeping the best weighted
+ * result per matching item
+ */
+function matchItems<T>(
+  items: readonly T[],
+  patternSet: PreparedPatternSet,
+  engine: MatchingEngine,
+  itemOptions: ItemOptions<T>
+): KeyedMatchResult<T>[] {
+  const results: KeyedMatchResult<T>[] = [];
+
+  for (const item of items) {
+    const startTime = now();
+    let best: KeyedMatchResult<T> | undefined;
+
+    for (const { key, value, weight } of getItemValues(item, itemOptions)) {
+      const result = engine.matchPreparedSet(value, patternSet);
+      const score = (result.score ?? 0) * weight;
+
+      if (result.matched && (!best || score > (best.score ?? 0))) {
+        best = {
+          ...result,
+          item,
+          score,
+          metadata: {
+            ...result.metadata,
+            ...(key !== undefined && { key }),
+            weight,
+          },
+        };
+      }
+    }
+
+    if (best) {
+      best.metadata!.processingTime = now() - startTime;
+      results.push(best);
+    }
+  }
+
+  return results;
+}
+
 /**
  * Filters an array of inputs based on patterns, similar to the original matcher
  *
@@ -77,42 +117,74 @@ function normalizePatterns(patterns: MatcherPattern): string[] {
  *
  * matcher(['test.js', 'test.ts', 'readme.md'], '*.ts');
  * //=> ['test.ts']
+ *
+ * matcher(users, 'j*', { keys: ['name', 'email'] });
+ * //=> users whose name or email starts with 'j'
  * ```
  */
 export function matcher(
   inputs: MatcherInput,
   patterns: MatcherPattern,
-  options: MatcherOptions = {}
-): string[] {
-  const monitor = new SimplePerformanceMonitor();
-  monitor.start();
-
-  const normalizedInputs = normalizeInput(inputs);
+  options?: MatcherOptions & StatsOptions
+): MatchList<string>;
+export function matcher<T>(
+  inputs: readonly T[],
+  patterns: MatcherPattern,
+  options: MatcherOptions & StatsOptions & ItemOptions<T>
+): MatchList<T>;
+export function matcher<T>(
+  inputs: MatcherInput | readonly T[],
+  patterns: MatcherPattern,
+  options: MatcherOptions & StatsOptions & ItemOptions<T> = {}
+): MatchList<string | T> {
+  const [statsOptions, rest] = splitStatsOptions(options);
+  const [itemOptions, matcherOptions] = splitItemOptions<T, typeof rest>(rest);
+  const normalizedInputs = normalizeInput(inputs as MatcherInput);
   const normalizedPatterns = normalizePatterns(patterns);
+  const engine = new MatchingEngine(matcherOptions);
+  const stats = new StatsCollector(statsOptions, engine.getCache());
+  stats.start();
 
   if (normalizedInputs.length === 0 || normalizedPatterns.length === 0) {
-    monitor.end();
-    return [];
+    stats.finish(normalizedInputs.length, normalizedPatterns.length, []);
+    return withDiagnostics([], matcherOptions);
+  }
+
+  const patternSet = engine.preparePatterns(normalizedPatterns);
+
+  if (hasItemOptions(itemOptions)) {
+    const matches = matchItems(
+      inputs as readonly T[],
+      patternSet,
+      engine,
+      itemOptions
+    );
+    stats.finish(
+      normalizedInputs.length,
+      normalizedPatterns.length,
+      matches.map((result) => result.score ?? 0)
+    );
+    return withDiagnostics(
+      matches.map((result) => result.item),
+      matcherOptions,
+      patternSet.diagnostics
+    );
   }
 
-  const engine = new MatchingEngine(options);
   const results: string[] = [];
+  const scores: number[] = [];
 
   for (const input of normalizedInputs) {
-    const result = engine.matchMultiple(input, normalizedPatterns);
+    const result = engine.matchPreparedSet(input, patternSet);
     if (result.matched) {
       results.push(input);
+      scores.push(result.score ?? 0);
     }
   }
 
-  monitor.updateStats(
-    normalizedInputs.length,
-    normalizedPatterns.length,
-    results.length
-  );
-  monitor.end();
+  stats.finish(normalizedInputs.length, normalizedPatterns.length, scores);
 
-  return results;
+  return withDiagnostics(results, matcherOptions, patternSet.diagnostics);
 }
 
 /**
@@ -138,29 +210,34 @@ export function matcher(
 export function isMatch(
   inputs: MatcherInput,
   patterns: MatcherPattern,
-  options: MatcherOptions = {}
+  options: MatcherOptions & StatsOptions = {}
 ): boolean {
+  const [statsOptions, matcherOptions] = splitStatsOptions(options);
   const normalizedInputs = normalizeInput(inputs);
   const normalizedPatterns = normalizePatterns(patterns);
-
-  if (normalizedInputs.length === 0 && normalizedPatterns.length === 0) {
-    return false;
-  }
+  const engine = new MatchingEngine(matcherOptions);
+  const stats = new StatsCollector(statsOptions, engine.getCache());
+  stats.start();
 
   if (normalizedInputs.length === 0 || normalizedPatterns.length === 0) {
+    stats.finish(normalizedInputs.length, normalizedPatterns.length, []);
     return false;
   }
 
-  const engine = new MatchingEngine(options);
+  const patternSet = engine.preparePatterns(normalizedPatterns);
 
-  // Check if any input matches all patterns
+  // Check if any input matches all patterns; stops at the first match
   for (const input of normalizedInputs) {
-    const result = engine.matchMultiple(input, normalizedPatterns);
+    const result = engine.matchPreparedSet(input, patternSet);
     if (result.matched) {
+      stats.finish(normalizedInputs.length, normalizedPatterns.length, [
+        result.score ?? 0,
+      ]);
       return true;
     }
   }
 
+  stats.finish(normalizedInputs.length, normalizedPatterns.length, []);
   return false;
 }
 
@@ -176,48 +253,236 @@ export function isMatch(
  * ```typescript
  * const results = matchAdvanced(['foo', 'bar'], ['f*'], { fuzzyMatch: true });
  * console.log(results[0]?.score); // Match score for 'foo'
+ *
+ * const [first] = matchAdvanced(books, 'dune*', { keys: ['title'] });
+ * console.log(first?.item, first?.metadata?.key); // The book, 'title'
  * ```
  */
 export function matchAdvanced(
   inputs: MatcherInput,
   patterns: MatcherPattern,
-  options: MatcherOptions = {}
-): MatchResult[] {
-  const monitor = new SimplePerformanceMonitor();
-  monitor.start();
-
-  const normalizedInputs = normalizeInput(inputs);
+  options?: MatcherOptions & StatsOptions
+): MatchList<MatchResult>;
+export function matchAdvanced<T>(
+  inputs: readonly T[],
+  patterns: MatcherPattern,
+  options: MatcherOptions & StatsOptions & ItemOptions<T>
+): MatchList<KeyedMatchResult<T>>;
+export function matchAdvanced<T>(
+  inputs: MatcherInput | readonly T[],
+  patterns: MatcherPattern,
+  options: MatcherOptions & StatsOptions & ItemOptions<T> = {}
+): MatchList<MatchResult> {
+  const [statsOptions, rest] = splitStatsOptions(options);
+  const [itemOptions, matcherOptions] = splitItemOptions<T, typeof rest>(rest);
+  const normalizedInputs = normalizeInput(inputs as MatcherInput);
   const normalizedPatterns = normalizePatterns(patterns);
+  const engine = new MatchingEngine(matcherOptions);
+  const stats = new StatsCollector(statsOptions, engine.getCache());
+  stats.start();
 
   if (normalizedInputs.length === 0 || normalizedPatterns.length === 0) {
-    monitor.end();
-    return [];
+    stats.finish(normalizedInputs.length, normalizedPatterns.length, []);
+    return withDiagnostics([], matcherOptions);
   }
 
-  const engine = new MatchingEngine(options);
-  const results: MatchResult[] = [];
-
-  for (const input of normalizedInputs) {
-    const result = engine.matchMultiple(input, normalizedPatterns);
-    if (result.matched) {
-      results.push({
-        ...result,
-        metadata: {
-          processingTime: monitor.end(),
-          options: engine.getOptions(),
-        },
-      });
-      monitor.start(); // Restart for next iteration
+  const patternSet = engine.preparePatterns(normalizedPatterns);
+  let results: MatchResult[];
+
+  if (hasItemOptions(itemOptions)) {
+    results = matchItems(
+      inputs as readonly T[],
+      patternSet,
+      engine,
+      itemOptions
+    ).map((result) => ({
+      ...result,
+      metadata: {
+        ...result.metadata,
+        options: engine.getOptions(),
+      },
+    }));
+  } else {
+    results = [];
+
+    for (const input of normalizedInputs) {
+      const startTime = now();
+      const result = engine.matchPreparedSet(input, patternSet);
+      if (result.matched) {
+        results.push({
+          ...result,
+          metadata: {
+            ...result.metadata,
+            processingTime: now() - startTime,
+            options: engine.getOptions(),
+          },
+        });
+      }
     }
   }
 
-  monitor.updateStats(
+  stats.finish(
     normalizedInputs.length,
     normalizedPatterns.length,
-    results.length
+    results.map((result) => result.score ?? 0)
   );
 
-  return results;
+  return withDiagnostics(results, matcherOptions, patternSet.diagnostics);
+}
+
+/**
+ * Returns the text matched by each wildcard of a pattern
+ *
+ * Every `*`, `**` and `?` yields one capture, in pattern order; in segment
+ * mode (`separator`) every matched segment does. Negated patterns capture
+ * nothing.
+ *
+ * @param input - String to match
+ * @param pattern - Pattern to match against
+ * @param options - Matching options
+ * @returns Captures, or null if the input does not match
+ *
+ * @example
+ * ```typescript
+ * capture('src/app.test.ts', '*.test.*');
+ * //=> ['src/app', 'ts']
+ * ```
+ */
+export function capture(
+  input: string,
+  pattern: string,
+  options: MatcherOptions = {}
+): string[] | null {
+  const result = new MatchingEngine(options).matchSingle(input, pattern);
+  return result.matched ? result.captures ?? [] : null;
+}
+
+/**
+ * Rewrites an input that matches `fromPattern` using its captures
+ *
+ * `$1`, `$2`, ... in `toPattern` are replaced by the text matched by the
+ * first, second, ... wildcard of `fromPattern`, and `$$` by a literal `$`.
+ * References to missing captures are left as they are.
+ *
+ * @param input - String to rewrite
+ * @param fromPattern - Pattern the input must match
+ * @param toPattern - Replacement with `$n` references
+ * @param options - Matching options
+ * @returns The rewritten input, or the input unchanged if it does not match
+ *
+ * @example
+ * ```typescript
+ * replace('src/app.test.ts', '*.test.ts', '$1.spec.ts');
+ * //=> 'src/app.spec.ts'
+ * ```
+ */
+export function replace(
+  input: string,
+  fromPattern: string,
+  toPattern: string,
+  options: MatcherOptions = {}
+): string {
+  const captures = capture(input, fromPattern, options);
+  if (!captures) {
+    return input;
+  }
+
+  return toPattern.replace(/\$(\$|\d+)/g, (reference, name: string) => {
+    if (name === "$") {
+      return "$";
+    }
+    const value = captures[Number(name) - 1];
+    return value === undefined ? reference : value;
+  });
+}
+
+/**
+ * Creates a reusable matcher that validates and compiles patterns only once
+ *
+ * @param patterns - Pattern or array of patterns to match against
+ * @param options - Matching options
+ * @returns Compiled matcher with `test`, `filter` and `explain` methods
+ *
+ * @example
+ * ```typescript
+ * const isSource = createMatcher(['*.ts', '!*.d.ts']);
+ * isSource.test('index.ts');
+ * //=> true
+ *
+ * isSource.filter(['index.ts', 'index.d.ts', 'readme.md']);
+ * //=> ['index.ts']
+ * ```
+ */
+export function createMatcher(
+  patterns: MatcherPattern,
+  options: MatcherOptions = {}
+): CompiledMatcher {
+  const engine = new MatchingEngine(options);
+  const patternSet = engine.preparePatterns(normalizePatterns(patterns));
+
+  const test = (input: string): boolean =>
+    engine.matchPreparedSet(input, patternSet).matched;
+
+  return {
+    patterns: patternSet.patterns.map((prepared) => prepared.pattern),
+    diagnostics: patternSet.diagnostics,
+    test,
+    filter(inputs: MatcherInput): string[] {
+      return normalizeInput(inputs).filter((input) => test(input));
+    },
+    explain(input: string): MatchResult {
+      const normalizedInput = engine.normalizeInput(input);
+
+      return {
+        ...engine.matchPreparedSet(input, patternSet),
+        metadata: {
+          results: patternSet.patterns.map((prepared) =>
+            engine.matchPrepared(input, normalizedInput, prepared)
+          ),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Creates a matcher for thousands of patterns, such as allow/deny lists
+ *
+ * Patterns are indexed by their literal prefix or suffix, so each input is
+ * only run against the few patterns that can match it, and the first negated
+ * pattern that excludes an input ends the check. Matches the same inputs as
+ * {@link createMatcher}.
+ *
+ * @param patterns - Pattern or array of patterns to match against
+ * @param options - Matching options
+ * @returns Bulk matcher with `test`, `filter` and `hits` methods
+ *
+ * @example
+ * ```typescript
+ * const denied = createBulkMatcher(['*.exe', 'setup-*', '!setup-safe.exe']);
+ * denied.hits('setup-tool.exe');
+ * //=> [0, 1]
+ * denied.test('setup-safe.exe');
+ * //=> false
+ * ```
+ */
+export function createBulkMatcher(
+  patterns: MatcherPattern,
+  options: MatcherOptions = {}
+): BulkMatcher {
+  const engine = new MatchingEngine(options);
+  const patternList = normalizePatterns(patterns);
+  const patternSet = new BulkPatternSet(engine, patternList);
+
+  return {
+    patterns: patternList,
+    diagnostics: patternSet.diagnostics,
+    test: (input: string): boolean => patternSet.test(input),
+    filter(inputs: MatcherInput): string[] {
+      return normalizeInput(inputs).filter((input) => patternSet.test(input));
+    },
+    hits: (input: string): number[] => patternSet.hits(input),
+  };
 }
 
 /**
@@ -225,7 +490,8 @@ export function matchAdvanced(
  *
  * @param inputs - String or array of strings to match
  * @param patterns - Pattern or array of patterns to match against
- * @param threshold - Similarity threshold (0-1, higher means more similar)
+ * @param threshold - Minimum similarity from 0 to 1, or an integer above 1 for
+ *   a maximum edit distance (see `fuzzyThreshold`)
  * @param options - Additional matching options
  * @returns Array of fuzzy match results with scores
  *
@@ -238,10 +504,26 @@ export function matchAdvanced(
 export function fuzzyMatch(
   inputs: MatcherInput,
   patterns: MatcherPattern,
-  threshold: number = 0.2,
-  options: Omit<MatcherOptions, "fuzzyMatch" | "fuzzyThreshold"> = {}
-): MatchResult[] {
-  return matchAdvanced(inputs, patterns, {
+  threshold?: number,
+  options?: Omit<MatcherOptions, "fuzzyMatch" | "fuzzyThreshold"> & StatsOptions
+): MatchList<MatchResult>;
+export function fuzzyMatch<T>(
+  inputs: readonly T[],
+  patterns: MatcherPattern,
+  threshold: number | undefined,
+  options: Omit<MatcherOptions, "fuzzyMatch" | "fuzzyThreshold"> &
+    StatsOptions &
+    ItemOptions<T>
+): MatchList<KeyedMatchResult<T>>;
+export function fuzzyMatch<T>(
+  inputs: MatcherInput | readonly T[],
+  patterns: MatcherPattern,
+  threshold: number = 0.6,
+  options: Omit<MatcherOptions, "fuzzyMatch" | "fuzzyThreshold"> &
+    StatsOptions &
+    ItemOptions<T> = {}
+): MatchList<MatchResult> {
+  return matchAdvanced(inputs as readonly T[], patterns, {
     ...options,
     fuzzyMatch: true,
     fuzzyThreshold: threshold,
@@ -301,6 +583,9 @@ export function partialMatch(
 /**
  * Multi-segment matching with custom separators
  *
+ * Each pattern segment matches one input segment and `**` matches any number
+ * of them; set `prefix` to also match inputs with extra trailing segments.
+ *
  * @param inputs - String or array of strings to match
  * @param patterns - Pattern or array of patterns to match against
  * @param separator - Separator to split inputs and patterns
@@ -325,6 +610,91 @@ export function segmentMatch(
   });
 }
 
+/**
+ * Matches a path against candidate routes and returns every route that
+ * matches, most specific first
+ *
+ * Routes use `route` syntax: `:name` parameters, optional `:name?`
+ * parameters, constrained `:name(regex)` parameters and `*name` splats.
+ * Static segments beat constrained parameters, which beat plain parameters,
+ * optional parameters and splats, comparing segments left to right; routes
+ * that are equally specific keep their list order. A matching negated route
+ * (`!/admin/*rest`) excludes the path from every route.
+ *
+ * @param path - Path to match
+ * @param routes - Route or array of routes to match against
+ * @param options - Matching options
+ * @returns Matching routes with their parameters, most specific first
+ *
+ * @example
+ * ```typescript
+ * rankRoutes('/users/me', ['/users/:id', '/users/me', '/*path']);
+ * //=> [
+ * //   { route: '/users/me', index: 1, params: {}, specificity: [4, 4] },
+ * //   { route: '/users/:id', index: 0, params: { id: 'me' }, specificity: [4, 2] },
+ * //   { route: '/*path', index: 2, params: { path: 'users/me' }, specificity: [0] }
+ * // ]
+ * ```
+ */
+export function rankRoutes(
+  path: string,
+  routes: MatcherPattern,
+  options: Omit<MatcherOptions, "syntax"> = {}
+): RouteMatch[] {
+  const engine = new MatchingEngine({ ...options, syntax: "route" });
+  const { positive, negative } = engine.preparePatterns(
+    typeof routes === "string" ? [routes] : routes
+  );
+  const normalizedPath = engine.normalizeInput(path);
+
+  const excluded = negative.some(
+    (route) => !engine.matchPrepared(path, normalizedPath, route).matched
+  );
+  if (excluded) {
+    return [];
+  }
+
+  const matches: RouteMatch[] = [];
+  for (const route of positive) {
+    const result = engine.matchPrepared(path, normalizedPath, route);
+    if (result.matched) {
+      matches.push({
+        route: route.pattern,
+        index: route.index,
+        params: result.params ?? {},
+        specificity: routeSpecificity(route.route ?? []),
+      });
+    }
+  }
+
+  return matches.sort(
+    (a, b) =>
+      compareSpecificity(a.specificity, b.specificity) || a.index - b.index
+  );
+}
+
+/**
+ * Finds the most specific route that matches a path
+ *
+ * @param path - Path to match
+ * @param routes - Route or array of routes to match against
+ * @param options - Matching options
+ * @returns The best matching route with its parameters, or null
+ *
+ * @example
+ * ```typescript
+ * matchRoute('/users/42/posts', ['/users/:id(\\d+)/:tab?', '/users/*rest']);
+ * //=> { route: '/users/:id(\\d+)/:tab?', index: 0, params: { id: '42', tab: 'posts' }, ... }
+ * ```
+ */
+export function matchRoute(
+  path: string,
+  routes: MatcherPattern,
+  options: Omit<MatcherOptions, "syntax"> = {}
+): RouteMatch | null {
+  return rankRoutes(path, routes, options)[0] ?? null;
+}
+
 // Re-export types for public API
 export type {
   MatcherInput,
@@ -333,4 +703,12 @@ export type {
   MatchResult,
   MatchStats,
   PerformanceMonitor,
+  CompiledMatcher,
+  BulkMatcher,
+  ItemOptions,
+  KeyedMatchResult,
+  RouteMatch,
+  StatsOptions,
+  MatchList,
+  PatternDiagnostic,
 };
@@ -0,0 +1,467 @@
+import type {
+  MatcherOptions,
+  MatcherOptionsSchema,
+  OptionConflict,
+  OptionIssue,
+  OptionSchema,
+  OptionsValidation,
+} from "./types";
+import { levenshteinDistance } from "./utils";
+import { MatcherOptionsError } from "./errors";
+
+/**
+ * Schema of every matcher option, for config loaders that want to check or
+ * document options before handing them to the matcher
+ *
+ * @example
+ * ```typescript
+ * matcherOptionsSchema.fuzzyThreshold;
+ * //=> { type: 'number', default: 0.6, min: 0, integerAbove: 1, description: ... }
+ * Object.keys(matcherOptionsSchema); //=> every known option name
+ * ```
+ */
+export const matcherOptionsSchema: MatcherOptionsSchema = {
+  caseSensitive: {
+    type: "boolean",
+    default: false,
+    description: "Match letter case exactly",
+  },
+  allPatterns: {
+    type: "boolean",
+    default: false,
+    description: "Require every positive pattern to match",
+  },
+  fuzzyMatch: {
+    type: "boolean",
+    default: false,
+    description: "Match by similarity instead of by pattern",
+  },
+  fuzzyThreshold: {
+    type: "number",
+    default: 0.6,
+    min: 0,
+    integerAbove: 1,
+    description:
+      "Minimum similarity (0-1) or maximum edit distance (integer above 1) for fuzzy matches",
+  },
+  maxDistance: {
+    type: "number",
+    min: 0,
+    integer: true,
+    description: "Maximum edit distance for fuzzy matches",
+  },
+  minSimilarity: {
+    type: "number",
+    min: 0,
+    max: 1,
+    description: "Minimum similarity (0-1) for fuzzy matches",
+  },
+  fuzzyAlgorithm: {
+    type: "string",
+    default: "levenshtein",
+    description: "Built-in or registered algorithm that scores fuzzy matches",
+  },
+  partialMatch: {
+    type: "boolean",
+    default: false,
+    description: "Also match inputs that contain the pattern text",
+  },
+  separator: {
+    type: "string",
+    description: "Split inputs and patterns into segments on this string",
+  },
+  prefix: {
+    type: "boolean",
+    default: false,
+    description: "Allow extra trailing segments with a separator",
+  },
+  wordBoundary: {
+    type: "boolean",
+    default: false,
+    description: "Require the match to start and end at word boundaries",
+  },
+  accentInsensitive: {
+    type: "boolean",
+    default: false,
+    description: "Ignore diacritics in inputs and patterns",
+  },
+  locale: {
+    type: "string",
+    format: "locale",
+    description: "Language whose rules are used to fold case",
+  },
+  caseFolding: {
+    type: "string",
+    default: "simple",
+    values: ["simple", "full"],
+    description:
+      "Fold case one character at a time or expand ß, ligatures, ...",
+  },
+  normalization: {
+    type: "string",
+    values: ["NFC", "NFKC", "NFKD"],
+    description: "Unicode normalization form applied to inputs and patterns",
+  },
+  syntax: {
+    type: "string",
+    default: "wildcard",
+    values: ["wildcard", "glob", "route"],
+    description: "Pattern syntax",
+  },
+  literal: {
+    type: "boolean",
+    default: false,
+    description: "Match patterns as plain text",
+  },
+  path: {
+    type: "boolean",
+    default: false,
+    description: "Treat inputs and patterns as /-separated paths",
+  },
+  dot: {
+    type: "boolean",
+    default: false,
+    description: "Allow wildcards to match a leading dot in path mode",
+  },
+  matchBase: {
+    type: "boolean",
+    default: false,
+    description: "Match patterns without a / against the basename",
+  },
+  ordered: {
+    type: "boolean",
+    default: false,
+    description: "Let the last matching pattern decide, as in .gitignore",
+  },
+  maxDepth: {
+    type: "number",
+    default: 10,
+    min: 0,
+    integer: true,
+    description: "Maximum recursion depth for nested pattern matching",
+  },
+  strict: {
+    type: "boolean",
+    default: true,
+    description: "Throw for invalid patterns instead of reporting them",
+  },
+};
+
+/**
+ * Combinations of options in which one option has no effect
+ *
+ * Options whose precedence is documented, such as `maxDistance` over
+ * `minSimilarity` or `ordered` over `allPatterns`, are not listed.
+ */
+export const optionConflicts: readonly OptionConflict[] = [
+  {
+    options: ["fuzzyMatch", "separator"],
+    ignored: "separator",
+    message:
+      "separator is ignored with fuzzyMatch, which compares whole inputs",
+    applies: (options) =>
+      options.fuzzyMatch === true && options.separator !== undefined,
+  },
+  {
+    options: ["fuzzyMatch", "syntax"],
+    ignored: "syntax",
+    message:
+      "syntax is ignored with fuzzyMatch, which compares patterns as text",
+    applies: (options) =>
+      options.fuzzyMatch === true &&
+      options.syntax !== undefined &&
+      options.syntax !== "wildcard",
+  },
+  {
+    options: ["fuzzyMatch", "partialMatch"],
+    ignored: "partialMatch",
+    message:
+      "partialMatch is ignored with fuzzyMatch, which already scores inputs containing the pattern",
+    applies: (options) =>
+      options.fuzzyMatch === true && options.partialMatch === true,
+  },
+  {
+    options: ["fuzzyMatch", "wordBoundary"],
+    ignored: "wordBoundary",
+    message: "wordBoundary is ignored with fuzzyMatch",
+    applies: (options) =>
+      options.fuzzyMatch === true && options.wordBoundary === true,
+  },
+  {
+    options: ["partialMatch", "wordBoundary"],
+    ignored: "wordBoundary",
+    message:
+      "wordBoundary has no effect with partialMatch, which also accepts the pattern text anywhere in the input",
+    applies: (options) =>
+      options.partialMatch === true && options.wordBoundary === true,
+  },
+  {
+    options: ["prefix", "separator"],
+    ignored: "prefix",
+    message: "prefix is ignored without a separator",
+    applies: (options) =>
+      options.prefix === true && options.separator === undefined,
+  },
+  {
+    options: ["dot", "path"],
+    ignored: "dot",
+    message: "dot is ignored without path, where wildcards match dots anyway",
+    applies: (options) => options.dot === true && options.path !== true,
+  },
+  {
+    options: ["caseSensitive", "caseFolding"],
+    ignored: "caseFolding",
+    message: "caseFolding is ignored with caseSensitive",
+    applies: (options) =>
+      options.caseSensitive === true && options.caseFolding !== undefined,
+  },
+  {
+    options: ["caseSensitive", "locale"],
+    ignored: "locale",
+    message:
+      "locale is ignored with caseSensitive, since it only affects case folding",
+    applies: (options) =>
+      options.caseSensitive === true && options.locale !== undefined,
+  },
+  {
+    options: ["literal", "syntax"],
+    ignored: "syntax",
+    message: "syntax is ignored with literal, which matches patterns as text",
+    applies: (options) =>
+      options.literal === true &&
+      options.syntax !== undefined &&
+      options.syntax !== "wildcard",
+  },
+];
+
+/**
+ * Formats an option value for a message
+ */
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Describes the values a number option accepts
+ */
+function describeRange(schema: OptionSchema): string {
+  const { min, max, integer, integerAbove } = schema;
+
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}`;
+  }
+  if (integerAbove !== undefined) {
+    return `between ${
+      min ?? "-Infinity"
+    } and ${integerAbove} or an integer above ${integerAbove}`;
+  }
+  if (min === 0) {
+    return integer ? "a non-negative integer" : "non-negative";
+  }
+  return integer ? "an integer" : "a number";
+}
+
+/**
+ * Checks whether a string is a well-formed BCP 47 language tag
+ */
+function isLocale(value: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks one option value against its schema
+ *
+ * @returns The problem with the value, or `undefined` when it is valid
+ */
+function checkValue(
+  option: string,
+  value: unknown,
+  schema: OptionSchema
+): string | undefined {
+  if (
+    typeof value !== schema.type ||
+    (typeof value === "number" && Number.isNaN(value))
+  ) {
+    return `${option} must be a ${schema.type}: ${formatValue(value)}`;
+  }
+
+  if (schema.values && !schema.values.includes(value as string)) {
+    const values = schema.values.map((allowed) => `"${allowed}"`).join(", ");
+    return `${option} must be one of ${values}: ${formatValue(value)}`;
+  }
+
+  if (schema.format === "locale" && !isLocale(value as string)) {
+    return `${option} must be a BCP 47 language tag: ${formatValue(value)}`;
+  }
+
+  if (typeof value === "number") {
+    const { min, max, integer, integerAbove } = schema;
+    const valid =
+      (min === undefined || value >= min) &&
+      (max === undefined || value <= max) &&
+      (!integer || Number.isInteger(value)) &&
+      (integerAbove === undefined ||
+        value <= integerAbove ||
+        Number.isInteger(value));
+
+    if (!valid) {
+      return `${option} must be ${describeRange(schema)}: ${value}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the known option closest to a misspelled one
+ */
+function suggestOption(option: string): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+
+  for (const known of Object.keys(matcherOptionsSchema)) {
+    const distance = levenshteinDistance(
+      option.toLowerCase(),
+      known.toLowerCase()
+    );
+    if (distance < bestDistance) {
+      best = known;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Validates matcher options against {@link matcherOptionsSchema}
+ *
+ * Values of the wrong type or out of range are errors. Unknown options and
+ * combinations in which an option has no effect are warnings. Options set to
+ * `undefined` count as not set.
+ *
+ * @param options - Options to validate, typically read from a config file
+ * @returns Whether the options are usable, with every error and warning
+ *
+ * @example
+ * ```typescript
+ * validateOptions({ fuzzyThreshold: -1, casesensitive: true });
+ * //=> {
+ * //   valid: false,
+ * //   errors: [{ option: 'fuzzyThreshold', value: -1, message: 'fuzzyThreshold must be ...' }],
+ * //   warnings: [{ option: 'casesensitive', value: true, message: 'Unknown option "casesensitive"; did you mean "caseSensitive"?' }]
+ * // }
+ * ```
+ */
+export function validateOptions(options: unknown): OptionsValidation {
+  const errors: OptionIssue[] = [];
+  const warnings: OptionIssue[] = [];
+
+  if (typeof options !== "object" || options === null) {
+    errors.push({
+      option: "",
+      value: options,
+      message: `Options must be an object: ${formatValue(options)}`,
+    });
+    return { valid: false, errors, warnings };
+  }
+
+  const schemas: Readonly<Record<string, OptionSchema>> = matcherOptionsSchema;
+  for (const [option, value] of Object.entries(options)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const schema = Object.prototype.hasOwnProperty.call(schemas, option)
+      ? schemas[option]
+      : undefined;
+    if (!schema) {
+      const suggestion = suggestOption(option);
+      warnings.push({
+        option,
+        value,
+        message: `Unknown option "${option}"${
+          suggestion ? `; did you mean "${suggestion}"?` : ""
+        }`,
+      });
+      continue;
+    }
+
+    const problem = checkValue(option, value, schema);
+    if (problem) {
+      errors.push({ option, value, message: problem });
+    }
+  }
+
+  for (const conflict of optionConflicts) {
+    if (conflict.applies(options as MatcherOptions)) {
+      warnings.push({
+        option: conflict.ignored,
+        value: (options as MatcherOptions)[conflict.ignored],
+        message: conflict.message,
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Warnings already emitted, so each one is only reported once per process
+ */
+const emittedWarnings = new Set<string>();
+
+/**
+ * Options that only the functions matching items through their keys read
+ */
+const itemOptions = ["keys", "accessor"];
+
+/**
+ * Emits a `MatcherOptionsWarning` process warning, or logs it to the console
+ * in runtimes without `process`, such as browsers and Deno
+ */
+function emitWarning(message: string): void {
+  if (typeof globalThis.process?.emitWarning === "function") {
+    process.emitWarning(message, "MatcherOptionsWarning");
+  } else {
+    console.warn(`MatcherOptionsWarning: ${message}`);
+  }
+}
+
+/**
+ * Throws a `MatcherOptionsError` for the first invalid option and emits a
+ * process warning of type `MatcherOptionsWarning` for every warning
+ *
+ * `keys` and `accessor` are errors here: options reaching the engine with
+ * them come from a function that only matches strings.
+ */
+export function assertValidOptions(options: MatcherOptions): void {
+  for (const option of itemOptions) {
+    const value = (options as Record<string, unknown>)[option];
+    if (value !== undefined) {
+      throw new MatcherOptionsError(
+        option,
+        value,
+        `${option} is only supported by matcher, matchAdvanced, fuzzyMatch and search`
+      );
+    }
+  }
+
+  const { errors, warnings } = validateOptions(options);
+
+  const [error] = errors;
+  if (error) {
+    throw new MatcherOptionsError(error.option, error.value, error.message);
+  }
+
+  for (const { message } of warnings) {
+    if (!emittedWarnings.has(message)) {
+      emittedWarnings.add(message);
+      emitWarning(message);
+    }
+  }
+}
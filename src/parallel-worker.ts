@@ -0,0 +1,27 @@
+import { parentPort, workerData } from "worker_threads";
+import type {
+  ParallelChunk,
+  ParallelChunkResult,
+  ParallelWorkerData,
+} from "./types";
+import { createMatcher } from "./matcher";
+
+/**
+ * Worker thread entry point for `matchParallel`: compiles the patterns once
+ * and answers each chunk with the positions of its matching inputs
+ */
+const { patterns, options } = workerData as ParallelWorkerData;
+const compiled = createMatcher(patterns, options);
+
+parentPort!.on("message", ({ id, inputs }: ParallelChunk) => {
+  const matches: number[] = [];
+
+  for (let i = 0; i < inputs.length; i++) {
+    if (compiled.test(inputs[i]!)) {
+      matches.push(i);
+    }
+  }
+
+  const result: ParallelChunkResult = { id, matches };
+  parentPort!.postMessage(result);
+});
@@ -0,0 +1,191 @@
+import { cpus } from "os";
+import { join } from "path";
+import { Worker } from "worker_threads";
+import type {
+  MatcherOptions,
+  MatcherPattern,
+  ParallelChunk,
+  ParallelChunkResult,
+  ParallelMatchOptions,
+  ParallelWorkerData,
+} from "./types";
+import { createMatcher } from "./matcher";
+import { isBuiltInFuzzyAlgorithm } from "./similarity";
+import { MatcherOptionsError } from "./errors";
+
+/**
+ * Chunks handed to each worker on average, so faster workers can take more
+ */
+const CHUNKS_PER_WORKER = 4;
+
+/**
+ * Smallest chunk worth the cost of a message round trip
+ */
+const MIN_CHUNK_SIZE = 1000;
+
+/**
+ * Throws if an option can't be sent to a worker thread
+ *
+ * Functions (such as `accessor` or custom scorers) can't be cloned, and
+ * scorers added with `registerFuzzyAlgorithm` only exist in the calling
+ * thread.
+ */
+function assertSerializable(options: MatcherOptions, path: string = ""): void {
+  for (const [key, value] of Object.entries(options)) {
+    const name = `${path}${key}`;
+
+    if (typeof value === "function") {
+      throw new MatcherOptionsError(
+        name,
+        value,
+        `Option "${name}" is a function and cannot be sent to worker threads`
+      );
+    }
+    if (typeof value === "symbol") {
+      throw new MatcherOptionsError(
+        name,
+        value,
+        `Option "${name}" is a symbol and cannot be sent to worker threads`
+      );
+    }
+    if (value !== null && typeof value === "object") {
+      assertSerializable(value as MatcherOptions, `${name}.`);
+    }
+  }
+
+  if (
+    path === "" &&
+    options.fuzzyAlgorithm !== undefined &&
+    !isBuiltInFuzzyAlgorithm(options.fuzzyAlgorithm)
+  ) {
+    throw new MatcherOptionsError(
+      "fuzzyAlgorithm",
+      options.fuzzyAlgorithm,
+      `Fuzzy algorithm "${options.fuzzyAlgorithm}" is registered in this thread only and is not available to worker threads`
+    );
+  }
+}
+
+/**
+ * Starts a worker that compiles the patterns
+ */
+function startWorker(data: ParallelWorkerData): Worker {
+  return new Worker(join(__dirname, "parallel-worker.js"), {
+    workerData: data,
+  });
+}
+
+/**
+ * Filters inputs on several worker threads
+ *
+ * Inputs are split into chunks that idle workers pick up one at a time.
+ * Each worker compiles the patterns once, and the matches are merged back
+ * into input order, so the result equals `matcher(inputs, patterns, options)`.
+ * Options must be serializable: function-valued options and fuzzy
+ * algorithms added with `registerFuzzyAlgorithm` are rejected.
+ *
+ * @param inputs - Strings to match
+ * @param patterns - Pattern or array of patterns to match against
+ * @param options - Matching options plus `workers` and `chunkSize`
+ * @returns Promise of the matching inputs, in input order
+ *
+ * @example
+ * ```typescript
+ * const sources = await matchParallel(paths, ['*.ts', '!*.d.ts'], { workers: 4 });
+ * ```
+ */
+export async function matchParallel(
+  inputs: readonly string[],
+  patterns: MatcherPattern,
+  options: ParallelMatchOptions = {}
+): Promise<string[]> {
+  const {
+    workers = Math.max(1, cpus().length - 1),
+    chunkSize,
+    ...matcherOptions
+  } = options;
+
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new MatcherOptionsError(
+      "workers",
+      workers,
+      `workers must be a positive integer, got ${workers}`
+    );
+  }
+  if (
+    chunkSize !== undefined &&
+    (!Number.isInteger(chunkSize) || chunkSize < 1)
+  ) {
+    throw new MatcherOptionsError(
+      "chunkSize",
+      chunkSize,
+      `chunkSize must be a positive integer, got ${chunkSize}`
+    );
+  }
+  assertSerializable(matcherOptions);
+
+  // Report invalid patterns here rather than from inside a worker
+  const compiled = createMatcher(patterns, matcherOptions);
+  if (inputs.length === 0) {
+    return [];
+  }
+
+  const size =
+    chunkSize ??
+    Math.max(
+      MIN_CHUNK_SIZE,
+      Math.ceil(inputs.length / (workers * CHUNKS_PER_WORKER))
+    );
+  const chunkCount = Math.ceil(inputs.length / size);
+  const results: number[][] = new Array(chunkCount);
+  const pool = Array.from({ length: Math.min(workers, chunkCount) }, () =>
+    startWorker({ patterns: compiled.patterns, options: matcherOptions })
+  );
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let nextChunk = 0;
+      let pending = chunkCount;
+
+      const sendNext = (worker: Worker): void => {
+        if (nextChunk >= chunkCount) {
+          return;
+        }
+        const id = nextChunk++;
+        const chunk: ParallelChunk = {
+          id,
+          inputs: inputs.slice(id * size, (id + 1) * size),
+        };
+        worker.postMessage(chunk);
+      };
+
+      for (const worker of pool) {
+        worker.on("message", ({ id, matches }: ParallelChunkResult) => {
+          results[id] = matches;
+          if (--pending === 0) {
+            resolve();
+          } else {
+            sendNext(worker);
+          }
+        });
+        worker.on("error", reject);
+        worker.on("exit", (code) => {
+          if (pending > 0) {
+            reject(new Error(`Worker stopped with exit code ${code}`));
+          }
+        });
+        sendNext(worker);
+      }
+    });
+  } finally {
+    await Promise.all(pool.map((worker) => worker.terminate()));
+  }
+
+  const matched: string[] = [];
+  results.forEach((matches, id) => {
+    for (const index of matches) {
+      matched.push(inputs[id * size + index]!);
+    }
+  });
+  return matched;
+}
@@ -0,0 +1,334 @@
+import type {
+  CompiledRouteSegment,
+  PatternIssue,
+  RouteParams,
+  RouteSegment,
+} from "./types";
+import { PatternSyntaxError } from "./errors";
+
+/**
+ * Valid parameter and splat names
+ */
+const ROUTE_NAME = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Characters with a regex meaning that static route segments do not support
+ */
+const UNSUPPORTED_STATIC_CHARS = /[+^${}()|[\]\\]/;
+
+/**
+ * Specificity of each kind of route segment, from most to least specific
+ */
+const SEGMENT_SPECIFICITY = {
+  static: 4,
+  constrained: 3,
+  param: 2,
+  optional: 1,
+  splat: 0,
+} as const;
+
+/**
+ * Splits a route into segments with their offsets, keeping separators
+ * inside `(...)` constraints intact
+ */
+function splitRoute(
+  route: string,
+  separator: string
+): Array<{ text: string; start: number }> {
+  const segments: Array<{ text: string; start: number }> = [];
+  let current = "";
+  let start = 0;
+  let depth = 0;
+
+  for (let i = 0; i < route.length; i++) {
+    const char = route[i]!;
+
+    if (char === "\\" && depth > 0) {
+      current += route.slice(i, i + 2);
+      i++;
+    } else if (depth === 0 && route.startsWith(separator, i)) {
+      segments.push({ text: current, start });
+      current = "";
+      i += separator.length - 1;
+      start = i + 1;
+    } else {
+      depth += char === "(" ? 1 : char === ")" && depth > 0 ? -1 : 0;
+      current += char;
+    }
+  }
+  segments.push({ text: current, start });
+
+  return segments.filter((segment) => segment.text.length > 0);
+}
+
+/**
+ * Parses a single route segment, returning an issue with an offset within
+ * the segment if it is invalid
+ */
+function parseSegment(segment: string): RouteSegment | PatternIssue {
+  if (segment.startsWith(":")) {
+    const optional = segment.endsWith("?");
+    const body = segment.slice(1, optional ? -1 : undefined);
+    const open = body.indexOf("(");
+    const name = open === -1 ? body : body.slice(0, open);
+
+    if (!ROUTE_NAME.test(name)) {
+      return {
+        message: `Invalid parameter name "${name}" in segment "${segment}"`,
+        offset: 1,
+        expected: "parameter name",
+      };
+    }
+    if (open === -1) {
+      return { type: "param", value: name, optional };
+    }
+    if (!body.endsWith(")")) {
+      return {
+        message: `Unclosed constraint in segment "${segment}"`,
+        offset: 1 + body.length,
+        expected: '")"',
+      };
+    }
+
+    const constraint = body.slice(open + 1, -1);
+    try {
+      new RegExp(constraint);
+    } catch {
+      return {
+        message: `Invalid constraint "${constraint}" in segment "${segment}"`,
+        offset: open + 2,
+        expected: "regular expression",
+      };
+    }
+    return { type: "param", value: name, optional, constraint };
+  }
+
+  // `*name` is a splat, while `*` followed by anything else is a wildcard
+  if (/^\*[A-Za-z_$]/.test(segment)) {
+    const optional = segment.endsWith("?");
+    const name = segment.slice(1, optional ? -1 : undefined);
+
+    return ROUTE_NAME.test(name)
+      ? { type: "splat", value: name, optional }
+      : {
+          message: `Invalid splat name "${name}" in segment "${segment}"`,
+          offset: 1,
+          expected: "splat name",
+        };
+  }
+
+  const unsupported = UNSUPPORTED_STATIC_CHARS.exec(segment);
+  return unsupported
+    ? {
+        message: `Unsupported character "${unsupported[0]}" in segment "${segment}"`,
+        offset: unsupported.index,
+      }
+    : { type: "static", value: segment, optional: false };
+}
+
+/**
+ * Parses a route into segments, returning an issue if it is invalid
+ */
+function readRoute(
+  route: string,
+  separator: string
+): { segments: RouteSegment[]; issue?: PatternIssue } {
+  const segments: RouteSegment[] = [];
+  const names = new Set<string>();
+
+  for (const { text, start } of splitRoute(route, separator)) {
+    const segment = parseSegment(text);
+
+    if ("message" in segment) {
+      return {
+        segments,
+        issue: { ...segment, offset: start + segment.offset },
+      };
+    }
+    if (segment.type !== "static") {
+      if (names.has(segment.value)) {
+        return {
+          segments,
+          issue: {
+            message: `Duplicate parameter name "${segment.value}"`,
+            offset: start + 1,
+          },
+        };
+      }
+      names.add(segment.value);
+    }
+    segments.push(segment);
+  }
+
+  return { segments };
+}
+
+/**
+ * Checks route syntax and returns the issue with a malformed route
+ *
+ * Offsets are relative to `route`.
+ */
+export function validateRoute(
+  route: string,
+  separator: string = "/"
+): PatternIssue | undefined {
+  return readRoute(route, separator).issue;
+}
+
+/**
+ * Parses a route such as `/users/:id(\\d+)/:tab?` into its segments
+ *
+ * Segments are static text (where `*` and `?` match any characters within
+ * the segment), `:name` parameters matching one segment, optional `:name?`
+ * parameters, `:name(regex)` parameters whose segment must match `regex`,
+ * and `*name` splats matching one or more segments (`*name?` for zero or
+ * more).
+ *
+ * @param route - Route to parse, without a leading `!`
+ * @param separator - Segment separator
+ * @returns Segments of the route in order
+ * @throws {PatternSyntaxError} If the route is malformed
+ *
+ * @example
+ * ```typescript
+ * parseRoute('/files/:id(\\d+)/*rest');
+ * //=> [
+ * //   { type: 'static', value: 'files', optional: false },
+ * //   { type: 'param', value: 'id', optional: false, constraint: '\\d+' },
+ * //   { type: 'splat', value: 'rest', optional: false }
+ * // ]
+ * ```
+ */
+export function parseRoute(
+  route: string,
+  separator: string = "/"
+): RouteSegment[] {
+  const { segments, issue } = readRoute(route, separator);
+  if (issue) {
+    throw new PatternSyntaxError(
+      route,
+      issue.message,
+      issue.offset,
+      issue.expected
+    );
+  }
+  return segments;
+}
+
+/**
+ * Scores each segment of a route by how specific it is, for ranking
+ *
+ * Static text scores highest, then static text with wildcards and
+ * constrained parameters, then plain parameters, optional parameters and
+ * finally splats.
+ *
+ * @example
+ * ```typescript
+ * routeSpecificity(parseRoute('/users/:id/*rest')); //=> [4, 2, 0]
+ * ```
+ */
+export function routeSpecificity(segments: readonly RouteSegment[]): number[] {
+  return segments.map((segment) => {
+    if (segment.type === "splat") {
+      return SEGMENT_SPECIFICITY.splat;
+    }
+    if (segment.optional) {
+      return SEGMENT_SPECIFICITY.optional;
+    }
+    if (segment.type === "param") {
+      return segment.constraint !== undefined
+        ? SEGMENT_SPECIFICITY.constrained
+        : SEGMENT_SPECIFICITY.param;
+    }
+    if (segment.value === "*") {
+      return SEGMENT_SPECIFICITY.param;
+    }
+    return /[*?]/.test(segment.value)
+      ? SEGMENT_SPECIFICITY.constrained
+      : SEGMENT_SPECIFICITY.static;
+  });
+}
+
+/**
+ * Orders specificities so the more specific route comes first
+ *
+ * Segments are compared left to right; when one route is a prefix of the
+ * other, the shorter route wins, since the rest of the longer one went unused.
+ */
+export function compareSpecificity(
+  a: readonly number[],
+  b: readonly number[]
+): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (b[i] ?? Infinity) - (a[i] ?? Infinity);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Matches input segments against compiled route segments, backtracking over
+ * optional parameters and splats
+ *
+ * @param route - Route segments with a `regex` for static segments and
+ * constraints
+ * @param inputs - Normalized input segments, tested against the route
+ * @param originals - Original input segments, used for parameter values
+ * @param separator - Separator used to join splat segments
+ * @returns Extracted parameters, or `null` if the route does not match
+ */
+export function matchRouteSegments(
+  route: readonly CompiledRouteSegment[],
+  inputs: readonly string[],
+  originals: readonly string[],
+  separator: string
+): RouteParams | null {
+  const params: RouteParams = {};
+
+  const visit = (i: number, j: number): boolean => {
+    const segment = route[i];
+    if (!segment) {
+      return j === inputs.length;
+    }
+
+    if (segment.type === "static") {
+      return (
+        j < inputs.length &&
+        segment.regex!.test(inputs[j]!) &&
+        visit(i + 1, j + 1)
+      );
+    }
+
+    if (segment.type === "param") {
+      const value = originals[j];
+      if (
+        value !== undefined &&
+        (!segment.regex || segment.regex.test(value))
+      ) {
+        params[segment.value] = value;
+        if (visit(i + 1, j + 1)) {
+          return true;
+        }
+      }
+      if (segment.optional) {
+        params[segment.value] = undefined;
+        return visit(i + 1, j);
+      }
+      return false;
+    }
+
+    // Splats are greedy and give segments back when the rest fails
+    for (let k = inputs.length; k >= j + (segment.optional ? 0 : 1); k--) {
+      params[segment.value] =
+        k > j ? originals.slice(j, k).join(separator) : undefined;
+      if (visit(i + 1, k)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  return visit(0, 0) ? params : null;
+}
@@ -0,0 +1,310 @@
+import type { MatcherOptions, SearchOptions, SearchResult } from "./types";
+import { normalizeString, normalizeWithOffsets, originalRange } from "./utils";
+import { getItemValues } from "./keys";
+
+/**
+ * Score for every matched query character
+ */
+const SCORE_MATCH = 16;
+
+/**
+ * Penalty for opening a gap between two matched characters
+ */
+const PENALTY_GAP_START = 3;
+
+/**
+ * Penalty for every further character in a gap
+ */
+const PENALTY_GAP_EXTENSION = 1;
+
+/**
+ * Bonus for a match at the start of the target or after a separator
+ */
+const BONUS_BOUNDARY = 8;
+
+/**
+ * Bonus for a match on a camelCase hump or a letter-to-digit transition
+ */
+const BONUS_CAMEL = 7;
+
+/**
+ * Bonus for a match directly following the previous matched character
+ */
+const BONUS_CONSECUTIVE = 4;
+
+/**
+ * Best possible score per query character, used to scale scores to 0-1
+ */
+const MAX_CHAR_SCORE = SCORE_MATCH + BONUS_BOUNDARY + BONUS_CONSECUTIVE;
+
+/**
+ * Characters that separate words
+ */
+const WORD_SEPARATORS = /[\s\-_./\\:,;|()[\]{}'"`]/;
+
+/**
+ * Result of scoring a query as a subsequence of a target
+ */
+export interface SubsequenceMatch {
+  /**
+   * Score scaled to 0-1, higher is better
+   */
+  score: number;
+
+  /**
+   * Indices of the target characters matched by the query, in order
+   */
+  indices: number[];
+
+  /**
+   * Matched `[start, end)` ranges of the target, including the combining
+   * marks of matched characters
+   */
+  ranges: Array<[number, number]>;
+}
+
+/**
+ * Returns the bonus for matching the character at `index` of `target`
+ */
+function positionBonus(target: string, index: number): number {
+  if (index === 0) {
+    return BONUS_BOUNDARY;
+  }
+
+  const previous = target[index - 1]!;
+  const current = target[index]!;
+
+  if (WORD_SEPARATORS.test(previous)) {
+    return BONUS_BOUNDARY;
+  }
+
+  const previousIsLower = previous !== previous.toUpperCase();
+  const currentIsUpper = current !== current.toLowerCase();
+  const previousIsDigit = previous >= "0" && previous <= "9";
+  const currentIsDigit = current >= "0" && current <= "9";
+
+  if (
+    (previousIsLower && currentIsUpper) ||
+    (!previousIsDigit && currentIsDigit)
+  ) {
+    return BONUS_CAMEL;
+  }
+
+  return 0;
+}
+
+/**
+ * Scores `query` as a subsequence of `target`, fzf-style
+ *
+ * Matches at word starts and camelCase humps and runs of consecutive
+ * characters score higher; gaps between matched characters cost points.
+ * Returns null if the query is not a subsequence of the target.
+ *
+ * @example
+ * ```typescript
+ * subsequenceMatch('gp', 'getPackage');
+ * //=> { score: 0.77, indices: [0, 3], ranges: [[0, 1], [3, 4]] }
+ * ```
+ */
+export function subsequenceMatch(
+  query: string,
+  target: string,
+  options: MatcherOptions = {}
+): SubsequenceMatch | null {
+  // Positions are found in the normalized target and reported in the original
+  const needle = normalizeString(query, options);
+  const haystack = normalizeWithOffsets(target, options);
+  const m = needle.length;
+  const n = haystack.text.length;
+
+  if (m === 0) {
+    return { score: 1, indices: [], ranges: [] };
+  }
+  if (m > n) {
+    return null;
+  }
+
+  const bonuses = haystack.starts.map((position) =>
+    positionBonus(target, position)
+  );
+
+  // scores[i][j]: best score with query[i] matched at haystack[j]
+  // from[i][j]: haystack index of query[i - 1] on that best path
+  const scores: Float64Array[] = [];
+  const from: Int32Array[] = [];
+
+  for (let i = 0; i < m; i++) {
+    const row = new Float64Array(n).fill(-Infinity);
+    const origin = new Int32Array(n).fill(-1);
+    const previous = scores[i - 1];
+
+    // Best score of the previous row followed by a gap, and where it ended
+    let gapScore = -Infinity;
+    let gapFrom = -1;
+
+    for (let j = i; j < n; j++) {
+      if (previous && j >= 2) {
+        const opened = previous[j - 2]! - PENALTY_GAP_START;
+        const extended = gapScore - PENALTY_GAP_EXTENSION;
+        if (opened >= extended) {
+          gapScore = opened;
+          gapFrom = j - 2;
+        } else {
+          gapScore = extended;
+        }
+      }
+
+      if (haystack.text[j] !== needle[i]) {
+        continue;
+      }
+
+      const base = SCORE_MATCH + bonuses[j]!;
+
+      if (!previous) {
+        row[j] = base;
+        continue;
+      }
+
+      const consecutive = previous[j - 1]! + BONUS_CONSECUTIVE;
+      if (consecutive >= gapScore && consecutive > -Infinity) {
+        row[j] = base + consecutive;
+        origin[j] = j - 1;
+      } else if (gapScore > -Infinity) {
+        row[j] = base + gapScore;
+        origin[j] = gapFrom;
+      }
+    }
+
+    scores.push(row);
+    from.push(origin);
+  }
+
+  const last = scores[m - 1]!;
+  let end = -1;
+  for (let j = 0; j < n; j++) {
+    if (last[j]! > -Infinity && (end === -1 || last[j]! > last[end]!)) {
+      end = j;
+    }
+  }
+
+  if (end === -1) {
+    return null;
+  }
+
+  const matched = new Array<number>(m);
+  for (let i = m - 1, j = end; i >= 0; i--) {
+    matched[i] = j;
+    j = from[i]![j]!;
+  }
+
+  const indices: number[] = [];
+  const ranges: Array<[number, number]> = [];
+  for (const j of matched) {
+    const [start, stop] = originalRange(haystack, j, j + 1);
+    const previous = ranges[ranges.length - 1];
+
+    // A character folded into several is reported once
+    if (indices[indices.length - 1] !== start) {
+      indices.push(start);
+    }
+    if (previous && start <= previous[1]) {
+      previous[1] = Math.max(previous[1], stop);
+    } else {
+      ranges.push([start, stop]);
+    }
+  }
+
+  return {
+    score: Math.max(0, Math.min(1, last[end]! / (m * MAX_CHAR_SCORE))),
+    indices,
+    ranges,
+  };
+}
+
+/**
+ * Groups sorted indices into `[start, end)` ranges of consecutive indices
+ */
+export function indicesToRanges(
+  indices: readonly number[]
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  for (const index of indices) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === index) {
+      last[1] = index + 1;
+    } else {
+      ranges.push([index, index + 1]);
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Ranked fuzzy search, e.g. for a command palette
+ *
+ * Every item is scored with {@link subsequenceMatch}; results are sorted by
+ * score, then by shorter input, then by original order. Each result carries the
+ * matched character indices and ranges for highlighting.
+ *
+ * @param query - Text typed by the user
+ * @param items - Strings, or objects when `keys` or `accessor` is given
+ * @param options - Search options
+ * @returns Matching items, best first
+ *
+ * @example
+ * ```typescript
+ * search('gp', ['git push', 'getPackage', 'grep']);
+ * //=> [{ input: 'git push', ranges: [[0, 1], [4, 5]], ... }, { input: 'getPackage', ... }]
+ * ```
+ */
+export function search<T>(
+  query: string,
+  items: readonly T[],
+  options: SearchOptions<T> = {}
+): SearchResult<T>[] {
+  const minScore = options.minScore ?? 0;
+  const results: SearchResult<T>[] = [];
+
+  items.forEach((item, index) => {
+    let best: SearchResult<T> | undefined;
+
+    for (const { key, value, weight } of getItemValues(item, options)) {
+      const match = subsequenceMatch(query, value, options);
+      const score = (match?.score ?? 0) * weight;
+      if (!match || score < minScore) {
+        continue;
+      }
+
+      if (!best || score > (best.score ?? 0)) {
+        best = {
+          matched: true,
+          item,
+          index,
+          input: value,
+          pattern: query,
+          score,
+          indices: match.indices,
+          ranges: match.ranges,
+          ...(key !== undefined && { key }),
+        };
+      }
+    }
+
+    if (best) {
+      results.push(best);
+    }
+  });
+
+  results.sort(
+    (a, b) =>
+      (b.score ?? 0) - (a.score ?? 0) ||
+      (a.input?.length ?? 0) - (b.input?.length ?? 0) ||
+      a.index - b.index
+  );
+
+  return options.limit !== undefined
+    ? results.slice(0, options.limit)
+    : results;
+}
@@ -0,0 +1,861 @@
+import type {
+  DistanceFunction,
+  FuzzyAlgorithm,
+  SimilarityScorer,
+} from "./types";
+import { calculateSimilarity, levenshteinDistance } from "./utils";
+import { MatcherOptionsError } from "./errors";
+
+/**
+ * Calculates the optimal string alignment (restricted Damerau-Levenshtein)
+ * distance, which counts swapping two adjacent characters as one edit
+ *
+ * With `maxDistance`, computation stops as soon as the distance is known to
+ * exceed it and `maxDistance + 1` is returned.
+ */
+export function damerauLevenshteinDistance(
+  a: string,
+  b: string,
+  maxDistance: number = Infinity
+): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  // Three rolling rows: two rows back (for transpositions), previous and current
+  let twoBack = new Uint32Array(b.length + 1);
+  let previous = new Uint32Array(b.length + 1);
+  let current = new Uint32Array(b.length + 1);
+
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+  let previousMin = 0;
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previous[j]! + 1, // deletion
+        current[j - 1]! + 1, // insertion
+        previous[j - 1]! + cost // substitution
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, twoBack[j - 2]! + 1); // transposition
+      }
+
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    // Later cells build on this row, or on the previous one plus a swap
+    if (rowMin > maxDistance && previousMin >= maxDistance) {
+      return maxDistance + 1;
+    }
+    previousMin = rowMin;
+
+    [twoBack, previous, current] = [previous, current, twoBack];
+  }
+
+  const distance = previous[b.length]!;
+  return distance > maxDistance ? maxDistance + 1 : distance;
+}
+
+/**
+ * Calculates the Jaro-Winkler similarity (0-1, higher is better), which
+ * favors strings sharing a common prefix
+ */
+export function jaroWinklerSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Uint8Array(a.length);
+  const bMatches = new Uint8Array(b.length);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+
+    for (let j = start; j <= end; j++) {
+      if (!bMatches[j] && a[i] === b[j]) {
+        aMatches[i] = 1;
+        bMatches[j] = 1;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Splits a string into padded n-grams
+ */
+function toNGrams(value: string, size: number): Map<string, number> {
+  const padding = " ".repeat(size - 1);
+  const padded = `${padding}${value}${padding}`;
+  const grams = new Map<string, number>();
+
+  for (let i = 0; i + size <= padded.length; i++) {
+    const gram = padded.slice(i, i + size);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+
+  return grams;
+}
+
+/**
+ * Calculates the Dice coefficient of the trigrams of two strings (0-1, higher is better)
+ */
+export function diceCoefficient(
+  a: string,
+  b: string,
+  size: number = 3
+): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const aGrams = toNGrams(a, size);
+  const bGrams = toNGrams(b, size);
+  let shared = 0;
+  let total = 0;
+
+  for (const [gram, count] of aGrams) {
+    shared += Math.min(count, bGrams.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of bGrams.values()) {
+    total += count;
+  }
+
+  return (2 * shared) / total;
+}
+
+/**
+ * Soundex digit for every letter; vowels and `h`, `w`, `y` have none
+ */
+const SOUNDEX_CODES: Record<string, string> = {
+  b: "1",
+  f: "1",
+  p: "1",
+  v: "1",
+  c: "2",
+  g: "2",
+  j: "2",
+  k: "2",
+  q: "2",
+  s: "2",
+  x: "2",
+  z: "2",
+  d: "3",
+  t: "3",
+  l: "4",
+  m: "5",
+  n: "5",
+  r: "6",
+};
+
+/**
+ * Computes the American Soundex code of a string, e.g. `R163` for `Robert`
+ */
+export function soundex(value: string): string {
+  const letters = value.toLowerCase().replace(/[^a-z]/g, "");
+  if (letters.length === 0) {
+    return "";
+  }
+
+  let code = letters[0]!.toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]!] ?? "";
+
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const letter = letters[i]!;
+    const digit = SOUNDEX_CODES[letter] ?? "";
+
+    if (digit && digit !== previous) {
+      code += digit;
+    }
+
+    // `h` and `w` do not separate letters with the same code, vowels do
+    if (letter !== "h" && letter !== "w") {
+      previous = digit;
+    }
+  }
+
+  return code.padEnd(4, "0");
+}
+
+/**
+ * Computes the primary and secondary Double Metaphone codes of a string
+ *
+ * Codes are at most four characters long. `0` stands for the "th" sound and
+ * `X` for "sh".
+ *
+ * @example
+ * ```typescript
+ * doubleMetaphone('Smith');
+ * //=> ['SM0', 'XMT']
+ * ```
+ */
+export function doubleMetaphone(value: string): [string, string] {
+  const word = value.toUpperCase().replace(/[^A-ZÇÑ ]/g, "");
+  const length = word.length;
+  const last = length - 1;
+  const slavoGermanic = /W|K|CZ|WITZ/.test(word);
+  let primary = "";
+  let secondary = "";
+  let index = 0;
+
+  const at = (position: number): string =>
+    position >= 0 && position < length ? word[position]! : "";
+  const sub = (position: number, size: number): string =>
+    position >= 0 ? word.slice(position, position + size) : "";
+  const isVowel = (position: number): boolean =>
+    "AEIOUY".includes(at(position) || "-");
+  const oneOf = (text: string, ...options: string[]): boolean =>
+    options.includes(text);
+  const add = (main: string, alternate: string = main): void => {
+    primary += main;
+    secondary += alternate;
+  };
+  const germanic = (): boolean =>
+    oneOf(sub(0, 4), "VAN ", "VON ") || sub(0, 3) === "SCH";
+
+  // Skip silent letters at the start
+  if (oneOf(sub(0, 2), "GN", "KN", "PN", "WR", "PS")) {
+    index = 1;
+  }
+
+  // Initial `X` is pronounced `S`, e.g. Xavier
+  if (at(0) === "X") {
+    add("S");
+    index = 1;
+  }
+
+  while (index < length && (primary.length < 4 || secondary.length < 4)) {
+    const char = at(index);
+    const next = at(index + 1);
+
+    switch (char) {
+      case "A":
+      case "E":
+      case "I":
+      case "O":
+      case "U":
+      case "Y":
+        if (index === 0) add("A");
+        index++;
+        break;
+
+      case "B":
+        add("P");
+        index += next === "B" ? 2 : 1;
+        break;
+
+      case "Ç":
+        add("S");
+        index++;
+        break;
+
+      case "C":
+        if (
+          index > 1 &&
+          !isVowel(index - 2) &&
+          sub(index - 1, 3) === "ACH" &&
+          at(index + 2) !== "I" &&
+          (at(index + 2) !== "E" ||
+            oneOf(sub(index - 2, 6), "BACHER", "MACHER"))
+        ) {
+          add("K");
+          index += 2;
+        } else if (index === 0 && sub(0, 6) === "CAESAR") {
+          add("S");
+          index += 2;
+        } else if (sub(index, 4) === "CHIA") {
+          add("K");
+          index += 2;
+        } else if (sub(index, 2) === "CH") {
+          if (index > 0 && sub(index, 4) === "CHAE") {
+            add("K", "X");
+          } else if (
+            index === 0 &&
+            (oneOf(sub(1, 5), "HARAC", "HARIS") ||
+              oneOf(sub(1, 3), "HOR", "HYM", "HIA", "HEM")) &&
+            sub(0, 5) !== "CHORE"
+          ) {
+            add("K");
+          } else if (
+            germanic() ||
+            oneOf(sub(index - 2, 6), "ORCHES", "ARCHIT", "ORCHID") ||
+            oneOf(at(index + 2), "T", "S") ||
+            ((index === 0 || oneOf(at(index - 1), "A", "O", "U", "E")) &&
+              oneOf(
+                at(index + 2),
+                "L",
+                "R",
+                "N",
+                "M",
+                "B",
+                "H",
+                "F",
+                "V",
+                "W",
+                " ",
+                ""
+              ))
+          ) {
+            add("K");
+          } else if (index > 0) {
+            add(sub(0, 2) === "MC" ? "K" : "X", "K");
+          } else {
+            add("X");
+          }
+          index += 2;
+        } else if (sub(index, 2) === "CZ" && sub(index - 2, 4) !== "WICZ") {
+          add("S", "X");
+          index += 2;
+        } else if (sub(index + 1, 3) === "CIA") {
+          add("X");
+          index += 3;
+        } else if (sub(index, 2) === "CC" && !(index === 1 && at(0) === "M")) {
+          if (
+            oneOf(at(index + 2), "I", "E", "H") &&
+            sub(index + 2, 2) !== "HU"
+          ) {
+            if (
+              (index === 1 && at(0) === "A") ||
+              oneOf(sub(index - 1, 5), "UCCEE", "UCCES")
+            ) {
+              add("KS");
+            } else {
+              add("X");
+            }
+            index += 3;
+          } else {
+            add("K");
+            index += 2;
+          }
+        } else if (oneOf(sub(index, 2), "CK", "CG", "CQ")) {
+          add("K");
+          index += 2;
+        } else if (oneOf(sub(index, 2), "CI", "CE", "CY")) {
+          if (oneOf(sub(index, 3), "CIO", "CIE", "CIA")) {
+            add("S", "X");
+          } else {
+            add("S");
+          }
+          index += 2;
+        } else {
+          add("K");
+          if (oneOf(sub(index + 1, 2), " C", " Q", " G")) {
+            index += 3;
+          } else if (
+            oneOf(next, "C", "K", "Q") &&
+            !oneOf(sub(index + 1, 2), "CE", "CI")
+          ) {
+            index += 2;
+          } else {
+            index++;
+          }
+        }
+        break;
+
+      case "D":
+        if (sub(index, 2) === "DG") {
+          if (oneOf(at(index + 2), "I", "E", "Y")) {
+            add("J");
+            index += 3;
+          } else {
+            add("TK");
+            index += 2;
+          }
+        } else {
+          add("T");
+          index += oneOf(sub(index, 2), "DT", "DD") ? 2 : 1;
+        }
+        break;
+
+      case "F":
+      case "K":
+      case "N":
+      case "Q":
+      case "V":
+        add(char === "V" ? "F" : char === "Q" ? "K" : char);
+        index += next === char ? 2 : 1;
+        break;
+
+      case "G":
+        if (next === "H") {
+          if (index > 0 && !isVowel(index - 1)) {
+            add("K");
+          } else if (index === 0) {
+            add(at(index + 2) === "I" ? "J" : "K");
+          } else if (
+            oneOf(at(index - 2), "B", "H", "D") ||
+            oneOf(at(index - 3), "B", "H", "D") ||
+            oneOf(at(index - 4), "B", "H")
+          ) {
+            // Silent, e.g. "hugh", "bough", "broughton"
+          } else if (
+            index > 2 &&
+            at(index - 1) === "U" &&
+            oneOf(at(index - 3), "C", "G", "L", "R", "T")
+          ) {
+            add("F");
+          } else if (index > 0 && at(index - 1) !== "I") {
+            add("K");
+          }
+          index += 2;
+        } else if (next === "N") {
+          if (index === 1 && isVowel(0) && !slavoGermanic) {
+            add("KN", "N");
+          } else if (
+            sub(index + 2, 2) !== "EY" &&
+            at(index + 1) !== "Y" &&
+            !slavoGermanic
+          ) {
+            add("N", "KN");
+          } else {
+            add("KN");
+          }
+          index += 2;
+        } else if (sub(index + 1, 2) === "LI" && !slavoGermanic) {
+          add("KL", "L");
+          index += 2;
+        } else if (
+          index === 0 &&
+          (next === "Y" ||
+            oneOf(
+              sub(1, 2),
+              "ES",
+              "EP",
+              "EB",
+              "EL",
+              "EY",
+              "IB",
+              "IL",
+              "IN",
+              "IE",
+              "EI",
+              "ER"
+            ))
+        ) {
+          add("K", "J");
+          index += 2;
+        } else if (
+          (sub(index + 1, 2) === "ER" || next === "Y") &&
+          !oneOf(sub(0, 6), "DANGER", "RANGER", "MANGER") &&
+          !oneOf(at(index - 1), "E", "I") &&
+          !oneOf(sub(index - 1, 3), "RGY", "OGY")
+        ) {
+          add("K", "J");
+          index += 2;
+        } else if (
+          oneOf(next, "E", "I", "Y") ||
+          oneOf(sub(index - 1, 4), "AGGI", "OGGI")
+        ) {
+          if (germanic() || sub(index + 1, 2) === "ET") {
+            add("K");
+          } else if (sub(index + 1, 4) === "IER ") {
+            add("J");
+          } else {
+            add("J", "K");
+          }
+          index += 2;
+        } else {
+          add("K");
+          index += next === "G" ? 2 : 1;
+        }
+        break;
+
+      case "H":
+        if ((index === 0 || isVowel(index - 1)) && isVowel(index + 1)) {
+          add("H");
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case "J":
+        if (sub(index, 4) === "JOSE" || sub(0, 4) === "SAN ") {
+          if ((index === 0 && at(index + 4) === " ") || sub(0, 4) === "SAN ") {
+            add("H");
+          } else {
+            add("J", "H");
+          }
+          index++;
+          break;
+        }
+
+        if (index === 0) {
+          add("J", "A");
+        } else if (
+          isVowel(index - 1) &&
+          !slavoGermanic &&
+          oneOf(next, "A", "O")
+        ) {
+          add("J", "H");
+        } else if (index === last) {
+          add("J", "");
+        } else if (
+          !oneOf(next, "L", "T", "K", "S", "N", "M", "B", "Z") &&
+          !oneOf(at(index - 1), "S", "K", "L")
+        ) {
+          add("J");
+        }
+        index += next === "J" ? 2 : 1;
+        break;
+
+      case "L":
+        if (next === "L") {
+          if (
+            (index === length - 3 &&
+              oneOf(sub(index - 1, 4), "ILLO", "ILLA", "ALLE")) ||
+            ((oneOf(sub(last - 1, 2), "AS", "OS") ||
+              oneOf(at(last), "A", "O")) &&
+              sub(index - 1, 4) === "ALLE")
+          ) {
+            add("L", "");
+          } else {
+            add("L");
+          }
+          index += 2;
+        } else {
+          add("L");
+          index++;
+        }
+        break;
+
+      case "M":
+        add("M");
+        index +=
+          (sub(index - 1, 3) === "UMB" &&
+            (index + 1 === last || sub(index + 2, 2) === "ER")) ||
+          next === "M"
+            ? 2
+            : 1;
+        break;
+
+      case "Ñ":
+        add("N");
+        index++;
+        break;
+
+      case "P":
+        if (next === "H") {
+          add("F");
+          index += 2;
+        } else {
+          add("P");
+          index += oneOf(next, "P", "B") ? 2 : 1;
+        }
+        break;
+
+      case "R":
+        if (
+          index === last &&
+          !slavoGermanic &&
+          sub(index - 2, 2) === "IE" &&
+          !oneOf(sub(index - 4, 2), "ME", "MA")
+        ) {
+          add("", "R");
+        } else {
+          add("R");
+        }
+        index += next === "R" ? 2 : 1;
+        break;
+
+      case "S":
+        if (oneOf(sub(index - 1, 3), "ISL", "YSL")) {
+          index++;
+        } else if (index === 0 && sub(0, 5) === "SUGAR") {
+          add("X", "S");
+          index++;
+        } else if (sub(index, 2) === "SH") {
+          add(
+            oneOf(sub(index + 1, 4), "HEIM", "HOEK", "HOLM", "HOLZ") ? "S" : "X"
+          );
+          index += 2;
+        } else if (oneOf(sub(index, 3), "SIO", "SIA")) {
+          add("S", slavoGermanic ? "S" : "X");
+          index += 3;
+        } else if (
+          (index === 0 && oneOf(next, "M", "N", "L", "W")) ||
+          next === "Z"
+        ) {
+          add("S", "X");
+          index += next === "Z" ? 2 : 1;
+        } else if (sub(index, 2) === "SC") {
+          if (at(index + 2) === "H") {
+            if (oneOf(sub(index + 3, 2), "OO", "ER", "EN", "UY", "ED", "EM")) {
+              if (oneOf(sub(index + 3, 2), "ER", "EN")) {
+                add("X", "SK");
+              } else {
+                add("SK");
+              }
+            } else if (index === 0 && !isVowel(3) && at(3) !== "W") {
+              add("X", "S");
+            } else {
+              add("X");
+            }
+          } else if (oneOf(at(index + 2), "I", "E", "Y")) {
+            add("S");
+          } else {
+            add("SK");
+          }
+          index += 3;
+        } else {
+          if (index === last && oneOf(sub(index - 2, 2), "AI", "OI")) {
+            add("", "S");
+          } else {
+            add("S");
+          }
+          index += oneOf(next, "S", "Z") ? 2 : 1;
+        }
+        break;
+
+      case "T":
+        if (sub(index, 4) === "TION" || oneOf(sub(index, 3), "TIA", "TCH")) {
+          add("X");
+          index += 3;
+        } else if (sub(index, 2) === "TH" || sub(index, 3) === "TTH") {
+          if (oneOf(sub(index + 2, 2), "OM", "AM") || germanic()) {
+            add("T");
+          } else {
+            add("0", "T");
+          }
+          index += 2;
+        } else {
+          add("T");
+          index += oneOf(next, "T", "D") ? 2 : 1;
+        }
+        break;
+
+      case "W":
+        if (sub(index, 2) === "WR") {
+          add("R");
+          index += 2;
+          break;
+        }
+
+        if (index === 0 && (isVowel(1) || sub(0, 2) === "WH")) {
+          if (isVowel(1)) {
+            add("A", "F");
+          } else {
+            add("A");
+          }
+        }
+
+        if (
+          (index === last && isVowel(index - 1)) ||
+          oneOf(sub(index - 1, 5), "EWSKI", "EWSKY", "OWSKI", "OWSKY") ||
+          sub(0, 3) === "SCH"
+        ) {
+          add("", "F");
+          index++;
+        } else if (oneOf(sub(index, 4), "WICZ", "WITZ")) {
+          add("TS", "FX");
+          index += 4;
+        } else {
+          index++;
+        }
+        break;
+
+      case "X":
+        if (
+          !(
+            index === last &&
+            (oneOf(sub(index - 3, 3), "IAU", "EAU") ||
+              oneOf(sub(index - 2, 2), "AU", "OU"))
+          )
+        ) {
+          add("KS");
+        }
+        index += oneOf(next, "C", "X") ? 2 : 1;
+        break;
+
+      case "Z":
+        if (next === "H") {
+          add("J");
+          index += 2;
+          break;
+        }
+
+        if (
+          oneOf(sub(index + 1, 2), "ZO", "ZI", "ZA") ||
+          (slavoGermanic && index > 0 && at(index - 1) !== "T")
+        ) {
+          add("S", "TS");
+        } else {
+          add("S");
+        }
+        index += next === "Z" ? 2 : 1;
+        break;
+
+      default:
+        index++;
+    }
+  }
+
+  return [primary.slice(0, 4), secondary.slice(0, 4)];
+}
+
+/**
+ * Scores two phonetic codes, giving full marks to identical codes
+ */
+function compareCodes(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+  return calculateSimilarity(a, b);
+}
+
+/**
+ * Built-in similarity scorers, each returning 0-1 (higher is better)
+ */
+const BUILT_IN_ALGORITHMS = new Map<string, SimilarityScorer>([
+  ["levenshtein", calculateSimilarity],
+  [
+    "damerau-levenshtein",
+    (a, b) => {
+      if (a === b) return 1;
+      const maxLength = Math.max(a.length, b.length);
+      return 1 - damerauLevenshteinDistance(a, b) / maxLength;
+    },
+  ],
+  ["jaro-winkler", jaroWinklerSimilarity],
+  ["trigram", (a, b) => diceCoefficient(a, b, 3)],
+  [
+    "soundex",
+    (a, b) => {
+      const aCode = soundex(a);
+      const bCode = soundex(b);
+      if (aCode === bCode) return 1;
+      if (!aCode || !bCode) return 0;
+
+      let same = 0;
+      for (let i = 0; i < 4; i++) {
+        if (aCode[i] === bCode[i]) same++;
+      }
+      return same / 4;
+    },
+  ],
+  [
+    "double-metaphone",
+    (a, b) => {
+      const [aPrimary, aSecondary] = doubleMetaphone(a);
+      const [bPrimary, bSecondary] = doubleMetaphone(b);
+      return Math.max(
+        compareCodes(aPrimary, bPrimary),
+        compareCodes(aPrimary, bSecondary),
+        compareCodes(aSecondary, bPrimary),
+        compareCodes(aSecondary, bSecondary)
+      );
+    },
+  ],
+]);
+
+/**
+ * Custom similarity scorers registered by users
+ */
+const customAlgorithms = new Map<string, SimilarityScorer>();
+
+/**
+ * Registers a custom similarity scorer for use with the `fuzzyAlgorithm` option
+ *
+ * @example
+ * ```typescript
+ * registerFuzzyAlgorithm('prefix', (a, b) => (a.startsWith(b) ? 1 : 0));
+ * matcher(inputs, 'foo', { fuzzyMatch: true, fuzzyAlgorithm: 'prefix' });
+ * ```
+ */
+export function registerFuzzyAlgorithm(
+  name: string,
+  scorer: SimilarityScorer
+): void {
+  if (BUILT_IN_ALGORITHMS.has(name)) {
+    throw new MatcherOptionsError(
+      "fuzzyAlgorithm",
+      name,
+      `Cannot replace built-in fuzzy algorithm: ${name}`
+    );
+  }
+  if (typeof scorer !== "function") {
+    throw new MatcherOptionsError(
+      "fuzzyAlgorithm",
+      scorer,
+      "Fuzzy algorithm scorer must be a function"
+    );
+  }
+  customAlgorithms.set(name, scorer);
+}
+
+/**
+ * Removes a custom similarity scorer
+ */
+export function unregisterFuzzyAlgorithm(name: string): boolean {
+  return customAlgorithms.delete(name);
+}
+
+/**
+ * Checks whether an algorithm name refers to a built-in algorithm
+ */
+export function isBuiltInFuzzyAlgorithm(name: string): boolean {
+  return BUILT_IN_ALGORITHMS.has(name);
+}
+
+/**
+ * Looks up the similarity scorer for an algorithm name
+ */
+export function getFuzzyAlgorithm(
+  name: FuzzyAlgorithm = "levenshtein"
+): SimilarityScorer {
+  const scorer = BUILT_IN_ALGORITHMS.get(name) ?? customAlgorithms.get(name);
+  if (!scorer) {
+    throw new MatcherOptionsError(
+      "fuzzyAlgorithm",
+      name,
+      `Unknown fuzzy algorithm: ${name}`
+    );
+  }
+  return scorer;
+}
+
+/**
+ * Looks up the edit distance used by `maxDistance` for an algorithm name:
+ * Damerau-Levenshtein for `damerau-levenshtein`, Levenshtein otherwise
+ */
+export function getFuzzyDistance(
+  name: FuzzyAlgorithm = "levenshtein"
+): DistanceFunction {
+  return name === "damerau-levenshtein"
+    ? damerauLevenshteinDistance
+    : levenshteinDistance;
+}
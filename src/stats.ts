@@ -0,0 +1,135 @@
+import type { MatchStats, PerformanceMonitor, StatsOptions } from "./types";
+import type { PatternCache } from "./cache";
+import { now } from "./utils";
+
+/**
+ * Performance monitor that adds up the statistics of every call it records
+ *
+ * @example
+ * ```typescript
+ * const monitor = new SimplePerformanceMonitor();
+ * matcher(files, '*.ts', { monitor });
+ * matcher(files, '*.js', { monitor });
+ * monitor.getStats(); //=> totals over both calls
+ * ```
+ */
+export class SimplePerformanceMonitor implements PerformanceMonitor {
+  private startTime: number = 0;
+  private scoredMatches: number = 0;
+  private stats: MatchStats = {
+    totalInputs: 0,
+    totalPatterns: 0,
+    matchCount: 0,
+    processingTime: 0,
+  };
+
+  start(): void {
+    this.startTime = now();
+  }
+
+  end(): number {
+    return now() - this.startTime;
+  }
+
+  record(stats: MatchStats): void {
+    const { averageScore } = this.stats;
+
+    this.stats.totalInputs += stats.totalInputs;
+    this.stats.totalPatterns += stats.totalPatterns;
+    this.stats.matchCount += stats.matchCount;
+    this.stats.processingTime += stats.processingTime;
+
+    if (stats.averageScore !== undefined && stats.matchCount > 0) {
+      const total =
+        (averageScore ?? 0) * this.scoredMatches +
+        stats.averageScore * stats.matchCount;
+      this.scoredMatches += stats.matchCount;
+      this.stats.averageScore = total / this.scoredMatches;
+    }
+  }
+
+  getStats(): MatchStats {
+    return { ...this.stats };
+  }
+}
+
+/**
+ * Splits the statistics options off the matching options
+ */
+export function splitStatsOptions<O extends StatsOptions>(
+  options: O
+): [StatsOptions, Omit<O, keyof StatsOptions>] {
+  const { onStats, monitor, ...rest } = options;
+  return [{ onStats, monitor }, rest];
+}
+
+/**
+ * Collects the statistics of one matching call when `onStats` or `monitor`
+ * asks for them, and does nothing otherwise
+ */
+export class StatsCollector {
+  private readonly enabled: boolean;
+  private startTime: number = 0;
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
+
+  constructor(
+    private readonly options: StatsOptions,
+    private readonly cache: PatternCache
+  ) {
+    this.enabled =
+      options.onStats !== undefined || options.monitor !== undefined;
+  }
+
+  /**
+   * Starts timing the call
+   */
+  start(): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const { hits, misses } = this.cache.stats();
+    this.cacheHits = hits;
+    this.cacheMisses = misses;
+    this.options.monitor?.start();
+    this.startTime = now();
+  }
+
+  /**
+   * Finishes the call and reports its statistics
+   *
+   * @param inputs - Number of inputs matched
+   * @param patterns - Number of patterns matched against
+   * @param scores - Score of every match
+   */
+  finish(inputs: number, patterns: number, scores: readonly number[]): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const processingTime = now() - this.startTime;
+    const { monitor, onStats } = this.options;
+    monitor?.end();
+
+    const { hits, misses } = this.cache.stats();
+    const lookups = hits - this.cacheHits + (misses - this.cacheMisses);
+
+    const stats: MatchStats = {
+      totalInputs: inputs,
+      totalPatterns: patterns,
+      matchCount: scores.length,
+      processingTime,
+      ...(scores.length > 0 && {
+        averageScore:
+          scores.reduce((sum, score) => sum + score, 0) / scores.length,
+      }),
+      ...(lookups > 0 && {
+        cacheHitRate: (hits - this.cacheHits) / lookups,
+      }),
+    };
+
+    monitor?.record?.(stats);
+    onStats?.(stats);
+  }
+}
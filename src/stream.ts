@@ -0,0 +1,281 @@
+import { Transform } from "stream";
+import { StringDecoder } from "string_decoder";
+import type {
+  AsyncMatchOptions,
+  MatcherOptions,
+  MatcherPattern,
+  StreamMatchOptions,
+} from "./types";
+import { createMatcher } from "./matcher";
+import { MatcherOptionsError } from "./errors";
+
+/**
+ * Default number of inputs matched between yields to the event loop
+ */
+const DEFAULT_YIELD_EVERY = 1000;
+
+/**
+ * Splits text arriving in chunks into lines, holding back the unfinished
+ * last line until more text or the end arrives
+ */
+class LineSplitter {
+  private rest = "";
+
+  /**
+   * Returns the lines completed by `chunk`
+   */
+  push(chunk: string): string[] {
+    const lines = (this.rest + chunk).split("\n");
+    this.rest = lines.pop()!;
+    return lines.map(stripCarriageReturn);
+  }
+
+  /**
+   * Returns the last line if the text did not end with a newline
+   */
+  flush(): string[] {
+    const rest = stripCarriageReturn(this.rest);
+    this.rest = "";
+    return rest === "" ? [] : [rest];
+  }
+}
+
+/**
+ * Removes the `\r` of a Windows line ending
+ */
+function stripCarriageReturn(line: string): string {
+  return line.endsWith("\r") ? line.slice(0, -1) : line;
+}
+
+/**
+ * Throws the abort reason if the signal has been aborted
+ */
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (!signal?.aborted) {
+    return;
+  }
+
+  const reason: unknown = (signal as { reason?: unknown }).reason;
+  if (reason !== undefined) {
+    throw reason;
+  }
+  const error = new Error("The operation was aborted");
+  error.name = "AbortError";
+  throw error;
+}
+
+/**
+ * Waits for the next turn of the event loop so other work can run
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) =>
+    typeof setImmediate === "function"
+      ? setImmediate(resolve)
+      : setTimeout(resolve, 0)
+  );
+}
+
+/**
+ * Lazily yields the inputs of an iterable that match the patterns
+ *
+ * Patterns are compiled once and inputs are matched one at a time, so the
+ * iterable never has to fit in memory.
+ *
+ * @param inputs - Any iterable of strings, such as an array or a generator
+ * @param patterns - Pattern or array of patterns to match against
+ * @param options - Matching options
+ * @returns Generator of the matching inputs, in input order
+ *
+ * @example
+ * ```typescript
+ * for (const file of matchIterable(walkSync('.'), ['*.ts', '!*.d.ts'])) {
+ *   console.log(file);
+ * }
+ * ```
+ */
+export function* matchIterable(
+  inputs: Iterable<string>,
+  patterns: MatcherPattern,
+  options: MatcherOptions = {}
+): Generator<string, void, undefined> {
+  const compiled = createMatcher(patterns, options);
+
+  for (const input of inputs) {
+    if (compiled.test(input)) {
+      yield input;
+    }
+  }
+}
+
+/**
+ * Lazily yields the inputs of an async iterable that match the patterns
+ *
+ * Every `yieldEvery` inputs the generator waits for the next turn of the
+ * event loop, so long runs over synchronous sources don't block other work.
+ * Aborting `signal` stops the iteration with the abort reason.
+ *
+ * @param inputs - Any async or sync iterable of strings, such as a readline
+ *   interface
+ * @param patterns - Pattern or array of patterns to match against
+ * @param options - Matching options plus `yieldEvery` and `signal`
+ * @returns Async generator of the matching inputs, in input order
+ *
+ * @example
+ * ```typescript
+ * const lines = readline.createInterface({ input: fs.createReadStream('app.log') });
+ * for await (const line of matchAsyncIterable(lines, '*ERROR*', { signal })) {
+ *   console.log(line);
+ * }
+ * ```
+ */
+export async function* matchAsyncIterable(
+  inputs: AsyncIterable<string> | Iterable<string>,
+  patterns: MatcherPattern,
+  options: AsyncMatchOptions = {}
+): AsyncGenerator<string, void, undefined> {
+  const {
+    yieldEvery = DEFAULT_YIELD_EVERY,
+    signal,
+    ...matcherOptions
+  } = options;
+
+  if (!Number.isInteger(yieldEvery) || yieldEvery < 1) {
+    throw new MatcherOptionsError(
+      "yieldEvery",
+      yieldEvery,
+      `yieldEvery must be a positive integer, got ${String(yieldEvery)}`
+    );
+  }
+
+  throwIfAborted(signal);
+  const compiled = createMatcher(patterns, matcherOptions);
+  let count = 0;
+
+  for await (const input of inputs) {
+    throwIfAborted(signal);
+
+    if (compiled.test(input)) {
+      yield input;
+    }
+
+    if (++count % yieldEvery === 0) {
+      await yieldToEventLoop();
+      throwIfAborted(signal);
+    }
+  }
+}
+
+/**
+ * Creates a Node.js `Transform` stream that passes through matching inputs
+ *
+ * By default the stream reads text, splits it into lines (`\n` or `\r\n`)
+ * and writes each matching line followed by `\n`. With `objectMode: true`
+ * every written chunk is one input and matching inputs are pushed as they
+ * are.
+ *
+ * @param patterns - Pattern or array of patterns to match against
+ * @param options - Matching options plus `objectMode`
+ * @returns Transform stream of the matching lines or inputs
+ *
+ * @example
+ * ```typescript
+ * fs.createReadStream('files.txt')
+ *   .pipe(matchStream(['*.js', '!*.min.js']))
+ *   .pipe(process.stdout);
+ * ```
+ */
+export function matchStream(
+  patterns: MatcherPattern,
+  options: StreamMatchOptions = {}
+): Transform {
+  const { objectMode = false, ...matcherOptions } = options;
+  const compiled = createMatcher(patterns, matcherOptions);
+
+  if (objectMode) {
+    return new Transform({
+      objectMode: true,
+      transform(input: unknown, _encoding, callback) {
+        callback(null, compiled.test(String(input)) ? input : undefined);
+      },
+    });
+  }
+
+  const decoder = new StringDecoder("utf8");
+  const lines = new LineSplitter();
+
+  return new Transform({
+    transform(chunk: Buffer | string, _encoding, callback) {
+      const text = typeof chunk === "string" ? chunk : decoder.write(chunk);
+      for (const line of lines.push(text)) {
+        if (compiled.test(line)) {
+          this.push(`${line}\n`);
+        }
+      }
+      callback();
+    },
+    flush(callback) {
+      for (const line of lines.push(decoder.end()).concat(lines.flush())) {
+        if (compiled.test(line)) {
+          this.push(`${line}\n`);
+        }
+      }
+      callback();
+    },
+  });
+}
+
+/**
+ * Creates a web `TransformStream` that passes through matching inputs
+ *
+ * Behaves like {@link matchStream}: text chunks are split into lines and
+ * matching lines are written followed by `\n`, or with `objectMode: true`
+ * every chunk is one input. Requires a runtime with web streams (Node.js 18+,
+ * Deno, browsers).
+ *
+ * @param patterns - Pattern or array of patterns to match against
+ * @param options - Matching options plus `objectMode`
+ * @returns TransformStream of the matching lines or inputs
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/files.txt');
+ * response.body!
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(matchWebStream('*.js'));
+ * ```
+ */
+export function matchWebStream(
+  patterns: MatcherPattern,
+  options: StreamMatchOptions = {}
+): TransformStream<string, string> {
+  if (typeof TransformStream === "undefined") {
+    throw new Error("Web streams are not available in this runtime");
+  }
+
+  const { objectMode = false, ...matcherOptions } = options;
+  const compiled = createMatcher(patterns, matcherOptions);
+  const lines = new LineSplitter();
+
+  return new TransformStream<string, string>({
+    transform(chunk, controller) {
+      if (objectMode) {
+        if (compiled.test(chunk)) {
+          controller.enqueue(chunk);
+        }
+        return;
+      }
+      for (const line of lines.push(chunk)) {
+        if (compiled.test(line)) {
+          controller.enqueue(`${line}\n`);
+        }
+      }
+    },
+    flush(controller) {
+      for (const line of lines.flush()) {
+        if (compiled.test(line)) {
+          controller.enqueue(`${line}\n`);
+        }
+      }
+    },
+  });
+}
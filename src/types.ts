@@ -1,3 +1,5 @@
+import type { PatternSyntaxError } from "./errors";
+
 /**
  * Options for pattern matching operations
  */
@@ -21,11 +23,34 @@ export interface MatcherOptions {
   fuzzyMatch?: boolean;
 
   /**
-   * Maximum edit distance for fuzzy matching (0-1 as percentage, or integer for Levenshtein distance)
-   * @default 0.2
+   * Fuzzy matching cutoff: a value from 0 to 1 is a minimum similarity score,
+   * an integer above 1 is a maximum edit distance. Ignored when `maxDistance`
+   * or `minSimilarity` is set
+   * @default 0.6
    */
   fuzzyThreshold?: number;
 
+  /**
+   * Maximum number of edits for a fuzzy match. Takes precedence over
+   * `minSimilarity` and `fuzzyThreshold`
+   * @default undefined
+   */
+  maxDistance?: number;
+
+  /**
+   * Minimum similarity score (0-1) for a fuzzy match. Takes precedence over
+   * `fuzzyThreshold`
+   * @default undefined
+   */
+  minSimilarity?: number;
+
+  /**
+   * Similarity algorithm used for fuzzy matching: one of the built-in
+   * algorithms or the name of a scorer added with `registerFuzzyAlgorithm`
+   * @default "levenshtein"
+   */
+  fuzzyAlgorithm?: FuzzyAlgorithm;
+
   /**
    * Enable partial matching (substring matching)
    * @default false
@@ -33,11 +58,19 @@ export interface MatcherOptions {
   partialMatch?: boolean;
 
   /**
-   * Custom separator for multi-segment matching
+   * Custom separator for multi-segment matching: each pattern segment must
+   * match one input segment, and a `**` segment matches zero or more
    * @default undefined
    */
   separator?: string;
 
+  /**
+   * In segment mode, let a pattern match the leading segments of a longer
+   * input (`foo/*` matches `foo/bar/baz`)
+   * @default false
+   */
+  prefix?: boolean;
+
   /**
    * Enable word boundary matching
    * @default false
@@ -45,18 +78,387 @@ export interface MatcherOptions {
   wordBoundary?: boolean;
 
   /**
-   * Enable accent-insensitive matching (normalize accented characters)
+   * Enable accent-insensitive matching: combining diacritics are removed after
+   * decomposition, and letters such as `đ`, `ł` and `ø` match their base letter
    * @default false
    */
   accentInsensitive?: boolean;
 
+  /**
+   * BCP 47 language tag whose rules are used to fold case, such as `tr` to
+   * match `I` with dotless `ı` and `İ` with `i`
+   * @default undefined
+   */
+  locale?: string;
+
+  /**
+   * Case folding used when matching case-insensitively: `simple` maps every
+   * character to a single character, `full` also expands characters such as
+   * `ß` to `ss` and `ﬁ` to `fi`, so `?` no longer matches them as one character
+   * @default "simple"
+   */
+  caseFolding?: "simple" | "full";
+
+  /**
+   * Unicode normalization form applied to inputs and patterns: `NFC` matches
+   * precomposed and decomposed characters alike, `NFKC` and `NFKD` also fold
+   * compatibility characters such as ligatures and fullwidth forms (which
+   * turns a fullwidth `＊` in a pattern into a wildcard)
+   * @default undefined
+   */
+  normalization?: "NFC" | "NFKC" | "NFKD";
+
+  /**
+   * Pattern language to use
+   *
+   * - `wildcard`: `*` and `?` match any characters and `\\` escapes the next
+   *   character; everything else is literal
+   * - `glob`: full glob syntax with `**`, `[a-z]`, `{a,b}`, `{1..5}` and
+   *   `@(a|b)`, `!(a)`, `+(a)`, `*(a)`, `?(a)` extglobs, where `*` and `?`
+   *   never match `/`
+   * - `route`: `/`-separated routes with `:name`, optional `:name?`,
+   *   constrained `:name(regex)` and `*name` splat parameters; the input must
+   *   have the route's segments and parameters are returned in `params`
+   * @default "wildcard"
+   */
+  syntax?: "wildcard" | "glob" | "route";
+
+  /**
+   * Match patterns as plain text: `*`, `?`, `\\` and a leading `!` have no
+   * special meaning and `syntax` is ignored
+   * @default false
+   */
+  literal?: boolean;
+
+  /**
+   * Treat inputs and patterns as `/`-separated paths: `*` and `?` never match
+   * `/`, `\\` separators in inputs are normalized to `/`, and wildcards skip
+   * dotfiles unless `dot` is set. Backslashes in wildcard-syntax patterns are
+   * separators too rather than escapes
+   * @default false
+   */
+  path?: boolean;
+
+  /**
+   * Allow wildcards to match a leading dot in a path segment (path mode only)
+   * @default false
+   */
+  dot?: boolean;
+
+  /**
+   * Match patterns without a `/` against the basename of the input
+   * @default false
+   */
+  matchBase?: boolean;
+
+  /**
+   * Evaluate patterns in order so that the last matching pattern decides, as
+   * in `.gitignore`: `['*.js', '!vendor/*', 'vendor/keep.js']` re-includes
+   * `vendor/keep.js`. Takes precedence over `allPatterns`
+   * @default false
+   */
+  ordered?: boolean;
+
   /**
    * Maximum recursion depth for nested pattern matching
    * @default 10
    */
   maxDepth?: number;
+
+  /**
+   * Throw a `PatternSyntaxError` for an invalid pattern; when false, invalid
+   * patterns are left out and reported as `diagnostics` instead
+   * @default true
+   */
+  strict?: boolean;
+}
+
+/**
+ * Type of the value an option takes
+ */
+export type OptionValueType = "boolean" | "number" | "string";
+
+/**
+ * Describes one matcher option: its type, allowed values and default
+ */
+export interface OptionSchema {
+  /**
+   * Type of the value
+   */
+  type: OptionValueType;
+
+  /**
+   * One-line description of the option
+   */
+  description: string;
+
+  /**
+   * Value used when the option is not set; absent when unset means "off"
+   */
+  default?: boolean | number | string;
+
+  /**
+   * Allowed values of a string option
+   */
+  values?: readonly string[];
+
+  /**
+   * Smallest allowed value of a number option
+   */
+  min?: number;
+
+  /**
+   * Largest allowed value of a number option
+   */
+  max?: number;
+
+  /**
+   * Whether a number option only takes integers
+   */
+  integer?: boolean;
+
+  /**
+   * Values of a number option above this must be integers
+   */
+  integerAbove?: number;
+
+  /**
+   * Format a string option must follow
+   */
+  format?: "locale";
+}
+
+/**
+ * Schema of every matcher option, keyed by option name
+ */
+export type MatcherOptionsSchema = {
+  readonly [K in keyof MatcherOptions]-?: OptionSchema;
+};
+
+/**
+ * Combination of options in which one of them has no effect
+ */
+export interface OptionConflict {
+  /**
+   * Options involved in the combination
+   */
+  options: readonly (keyof MatcherOptions)[];
+
+  /**
+   * The option that has no effect
+   */
+  ignored: keyof MatcherOptions;
+
+  /**
+   * Explanation of why the option has no effect
+   */
+  message: string;
+
+  /**
+   * Checks whether the combination is present in a set of options
+   */
+  applies(options: MatcherOptions): boolean;
+}
+
+/**
+ * Problem found while validating options
+ */
+export interface OptionIssue {
+  /**
+   * Name of the option the problem is about
+   */
+  option: string;
+
+  /**
+   * Value of the option
+   */
+  value: unknown;
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+}
+
+/**
+ * Result of validating options
+ */
+export interface OptionsValidation {
+  /**
+   * Whether the options can be used; warnings don't make them invalid
+   */
+  valid: boolean;
+
+  /**
+   * Values the matcher can't use
+   */
+  errors: OptionIssue[];
+
+  /**
+   * Unknown options and options that have no effect in combination with others
+   */
+  warnings: OptionIssue[];
 }
 
+/**
+ * A normalized string with a map from its positions to the original string
+ */
+export interface NormalizedText {
+  /**
+   * The string before normalization
+   */
+  original: string;
+
+  /**
+   * The normalized string
+   */
+  text: string;
+
+  /**
+   * Offset in `original` where the character at each position of `text`
+   * comes from; characters that one original character expands into (`ß` to
+   * `ss`) share its offset
+   */
+  starts: number[];
+
+  /**
+   * Offset in `original` just past the character at each position of `text`,
+   * including any combining marks that were folded into it
+   */
+  ends: number[];
+}
+
+/**
+ * Problem found while validating a pattern
+ */
+export interface PatternIssue {
+  /**
+   * Description of the problem
+   */
+  message: string;
+
+  /**
+   * Offset in the pattern where the problem was found
+   */
+  offset: number;
+
+  /**
+   * Description of what was expected at `offset`
+   */
+  expected?: string;
+}
+
+/**
+ * Result of validating a pattern
+ */
+export interface PatternValidation {
+  /**
+   * Whether the pattern is valid
+   */
+  valid: boolean;
+
+  /**
+   * Description of the problem with an invalid pattern
+   */
+  error?: string;
+
+  /**
+   * Offset in the pattern where the problem was found
+   */
+  offset?: number;
+
+  /**
+   * Description of what was expected at `offset`
+   */
+  expected?: string;
+}
+
+/**
+ * Invalid pattern that a non-strict call left out
+ */
+export interface PatternDiagnostic {
+  /**
+   * The invalid pattern
+   */
+  pattern: string;
+
+  /**
+   * Position of the pattern in the pattern list
+   */
+  index: number;
+
+  /**
+   * Error that a strict call would have thrown
+   */
+  error: PatternSyntaxError;
+}
+
+/**
+ * Matches returned by `matcher` and `matchAdvanced`
+ *
+ * With `strict: false` the array also carries the invalid patterns that
+ * were left out, in a non-enumerable `diagnostics` property.
+ */
+export interface MatchList<T> extends Array<T> {
+  /**
+   * Invalid patterns left out of a non-strict call
+   */
+  diagnostics?: PatternDiagnostic[];
+}
+
+/**
+ * Resolved fuzzy matching cutoff; exactly one of the fields is set
+ */
+export interface FuzzyCriteria {
+  /**
+   * Maximum number of edits between input and pattern
+   */
+  maxDistance?: number;
+
+  /**
+   * Minimum similarity score (0-1)
+   */
+  minSimilarity?: number;
+}
+
+/**
+ * Edit distance between two strings; once the distance is known to exceed
+ * `maxDistance`, implementations may stop early and return `maxDistance + 1`
+ */
+export type DistanceFunction = (
+  a: string,
+  b: string,
+  maxDistance?: number
+) => number;
+
+/**
+ * Built-in fuzzy matching algorithms
+ *
+ * - `levenshtein`: edit distance
+ * - `damerau-levenshtein`: edit distance counting adjacent swaps as one edit (OSA)
+ * - `jaro-winkler`: character matches and transpositions, favoring common prefixes
+ * - `trigram`: Dice coefficient of character trigrams
+ * - `soundex`: American Soundex codes
+ * - `double-metaphone`: primary and secondary Double Metaphone codes
+ */
+export type BuiltInFuzzyAlgorithm =
+  | "levenshtein"
+  | "damerau-levenshtein"
+  | "jaro-winkler"
+  | "trigram"
+  | "soundex"
+  | "double-metaphone";
+
+/**
+ * Fuzzy algorithm name: a built-in algorithm or a registered custom one
+ */
+export type FuzzyAlgorithm = BuiltInFuzzyAlgorithm | (string & {});
+
+/**
+ * Scores the similarity of two strings from 0 (different) to 1 (identical)
+ */
+export type SimilarityScorer = (a: string, b: string) => number;
+
 /**
  * Input type for matcher functions - can be string or array of strings
  */
@@ -82,10 +484,16 @@ export interface MatchResult {
   input?: string;
 
   /**
-   * The pattern that matched (if any)
+   * The pattern that decided the result (if any): the pattern that matched,
+   * or the negated pattern that excluded the input
    */
   pattern?: string;
 
+  /**
+   * Position of `pattern` in the pattern list
+   */
+  patternIndex?: number;
+
   /**
    * Match score for fuzzy matching (0-1, higher is better)
    */
@@ -96,6 +504,24 @@ export interface MatchResult {
    */
   segments?: string[];
 
+  /**
+   * Text matched by each `*`, `**` and `?` wildcard in order, or by each
+   * pattern segment in segment mode (a `**` segment captures its segments
+   * joined with the separator). For routes, the value of each parameter and
+   * splat in `params` order, with `""` for absent optional parameters
+   */
+  captures?: string[];
+
+  /**
+   * Parameters extracted by a route pattern (`route` syntax)
+   */
+  params?: RouteParams;
+
+  /**
+   * Matched character ranges in the input as `[start, end)` pairs, for highlighting
+   */
+  ranges?: Array<[number, number]>;
+
   /**
    * Additional metadata about the match
    */
@@ -103,50 +529,752 @@ export interface MatchResult {
 }
 
 /**
- * Advanced matching statistics
+ * Key to read from object items: a property path such as `author.name`, or
+ * a path with a relative weight
+ *
+ * Weights are scaled so that the heaviest key has weight 1, which keeps
+ * weighted scores between 0 and 1.
  */
-export interface MatchStats {
+export type MatcherKey = string | { name: string; weight?: number };
+
+/**
+ * Options for matching arbitrary items instead of strings
+ */
+export interface ItemOptions<T> {
   /**
-   * Total number of inputs processed
+   * Property paths to read the text to match from
+   * @default undefined
    */
-  totalInputs: number;
+  keys?: readonly MatcherKey[];
 
   /**
-   * Total number of patterns processed
+   * Function returning the text (or texts) to match for an item; takes
+   * precedence over `keys`
+   * @default undefined
    */
-  totalPatterns: number;
+  accessor?: (item: T) => string | readonly string[] | null | undefined;
+}
 
+/**
+ * Match result for an item matched through `keys` or `accessor`
+ *
+ * `input` holds the text that matched, `metadata.key` the key it was read from
+ * and `metadata.weight` the scaled weight of that key.
+ */
+export interface KeyedMatchResult<T> extends MatchResult {
   /**
-   * Number of successful matches
+   * The original item
    */
-  matchCount: number;
+  item: T;
+}
 
+/**
+ * Options for ranked fuzzy search
+ */
+export interface SearchOptions<T = unknown>
+  extends Pick<MatcherOptions, "caseSensitive" | "accentInsensitive">,
+    ItemOptions<T> {
   /**
-   * Average match score (for fuzzy matching)
+   * Maximum number of results to return
+   * @default undefined
    */
-  averageScore?: number;
+  limit?: number;
 
   /**
-   * Processing time in milliseconds
+   * Minimum score (0-1) a result needs to be included
+   * @default 0
    */
-  processingTime: number;
+  minScore?: number;
 }
 
 /**
- * Cache entry for compiled patterns
+ * Ranked fuzzy search result
  */
-export interface PatternCacheEntry {
-  regex: RegExp;
-  isNegated: boolean;
-  originalPattern: string;
-  compiledAt: number;
-}
+export interface SearchResult<T = string> extends MatchResult {
+  /**
+   * The item that matched
+   */
+  item: T;
 
-/**
- * Performance monitoring interface
- */
-export interface PerformanceMonitor {
+  /**
+   * Position of the item in the searched list
+   */
+  index: number;
+
+  /**
+   * Indices of the matched characters in `input`
+   */
+  indices: number[];
+
+  /**
+   * Key of the matched property when searching objects
+   */
+  key?: string;
+}
+
+/**
+ * Advanced matching statistics
+ */
+export interface MatchStats {
+  /**
+   * Total number of inputs processed
+   */
+  totalInputs: number;
+
+  /**
+   * Total number of patterns processed
+   */
+  totalPatterns: number;
+
+  /**
+   * Number of successful matches
+   */
+  matchCount: number;
+
+  /**
+   * Average score of the matches (absent without matches)
+   */
+  averageScore?: number;
+
+  /**
+   * Processing time in milliseconds, measured with `performance.now()` (or
+   * `Date.now()` where there is no global `performance`)
+   */
+  processingTime: number;
+
+  /**
+   * Share of pattern cache lookups during the call that were hits (0-1;
+   * absent without lookups)
+   */
+  cacheHitRate?: number;
+}
+
+/**
+ * Options for receiving the statistics of a matching call
+ */
+export interface StatsOptions {
+  /**
+   * Called with the statistics of the call once it finishes
+   * @default undefined
+   */
+  onStats?: (stats: MatchStats) => void;
+
+  /**
+   * Monitor that is started and ended around the call and records its
+   * statistics, for forwarding metrics to your own telemetry
+   * @default undefined
+   */
+  monitor?: PerformanceMonitor;
+}
+
+/**
+ * Kind of token in a wildcard pattern
+ */
+export type PatternTokenType =
+  | "negation"
+  | "literal"
+  | "escape"
+  | "star"
+  | "char";
+
+/**
+ * Token of a wildcard pattern, as returned by `tokenizePattern`
+ */
+export interface PatternToken {
+  /**
+   * Kind of token: a leading `!`, a plain character, a `\\`-escaped
+   * character, a run of `*` or a `?`
+   */
+  type: PatternTokenType;
+
+  /**
+   * Text the token stands for, with escapes resolved
+   */
+  value: string;
+
+  /**
+   * Start offset of the token in the pattern
+   */
+  start: number;
+
+  /**
+   * End offset (exclusive) of the token in the pattern
+   */
+  end: number;
+}
+
+/**
+ * Kind of pattern token a regex fragment was compiled from
+ */
+export type PatternFragmentType =
+  | "literal"
+  | "star"
+  | "globstar"
+  | "char"
+  | "class"
+  | "brace"
+  | "extglob"
+  | "negation"
+  | "anchor"
+  | "boundary";
+
+/**
+ * Piece of a compiled regex mapped back to the pattern token it came from
+ */
+export interface PatternFragment {
+  /**
+   * Kind of token
+   */
+  type: PatternFragmentType;
+
+  /**
+   * Pattern text of the token (empty for anchors and other synthetic fragments)
+   */
+  token: string;
+
+  /**
+   * Start offset of the token in the pattern
+   */
+  start: number;
+
+  /**
+   * End offset (exclusive) of the token in the pattern
+   */
+  end: number;
+
+  /**
+   * Regex source produced for the token
+   */
+  source: string;
+}
+
+/**
+ * Cache entry for compiled patterns
+ */
+export interface PatternCacheEntry {
+  /**
+   * Regex matching the pattern without its negation prefix
+   */
+  regex: RegExp;
+  isNegated: boolean;
+  originalPattern: string;
+  compiledAt: number;
+
+  /**
+   * Fragments of `regex.source` in order, each mapped to its pattern token
+   */
+  fragments: PatternFragment[];
+
+  /**
+   * Variant of `regex` with a capture group per fragment, compiled on first
+   * use by `captureFragments`
+   */
+  fragmentRegex?: RegExp;
+}
+
+/**
+ * Options for a `PatternCache`
+ */
+export interface PatternCacheOptions {
+  /**
+   * Maximum number of compiled patterns to keep; the least recently used one
+   * is evicted first
+   * @default 1000
+   */
+  maxSize?: number;
+
+  /**
+   * Milliseconds a compiled pattern stays cached after it is stored
+   * @default Infinity
+   */
+  ttl?: number;
+}
+
+/**
+ * Size and counters of a `PatternCache`
+ */
+export interface PatternCacheStats {
+  size: number;
+  maxSize: number;
+  ttl: number;
+  hits: number;
+  misses: number;
+
+  /**
+   * Entries removed to make room for new ones
+   */
+  evictions: number;
+
+  /**
+   * Entries dropped because their time to live ran out
+   */
+  expirations: number;
+
+  /**
+   * Share of lookups that were hits (0-1)
+   */
+  hitRate: number;
+}
+
+/**
+ * Regex compiled from a pattern, with a map from regex fragments to pattern tokens
+ */
+export interface CompiledRegExp {
+  /**
+   * Regex equivalent to the pattern, including negation
+   */
+  regex: RegExp;
+
+  /**
+   * Whether the pattern was negated with a leading `!`
+   */
+  isNegated: boolean;
+
+  /**
+   * Fragments of `regex.source` in order; joining their sources gives `regex.source`
+   */
+  fragments: PatternFragment[];
+}
+
+/**
+ * Pattern that has been validated and normalized ahead of matching
+ */
+export interface PreparedPattern {
+  pattern: string;
+  index: number;
+  normalized: string;
+  isNegated: boolean;
+  matchBase: boolean;
+  compiled?: PatternCacheEntry;
+  route?: CompiledRouteSegment[];
+}
+
+/**
+ * Prepared patterns split into positive and negated patterns
+ */
+export interface PreparedPatternSet {
+  patterns: PreparedPattern[];
+  positive: PreparedPattern[];
+  negative: PreparedPattern[];
+  diagnostics: PatternDiagnostic[];
+}
+
+/**
+ * Reusable matcher with its patterns compiled once up front
+ */
+export interface CompiledMatcher {
+  /**
+   * The patterns the matcher was compiled from
+   */
+  readonly patterns: readonly string[];
+
+  /**
+   * Checks whether a single input matches the compiled patterns
+   */
+  test(input: string): boolean;
+
+  /**
+   * Returns the inputs that match the compiled patterns
+   */
+  filter(inputs: MatcherInput): string[];
+
+  /**
+   * Returns the overall match result along with the result of every pattern
+   */
+  explain(input: string): MatchResult;
+
+  /**
+   * Invalid patterns left out with `strict: false`
+   */
+  readonly diagnostics: readonly PatternDiagnostic[];
+}
+
+/**
+ * Matcher compiled for large pattern lists, such as allow/deny lists
+ */
+export interface BulkMatcher {
+  /**
+   * The patterns the matcher was compiled from
+   */
+  readonly patterns: readonly string[];
+
+  /**
+   * Checks whether a single input matches the compiled patterns
+   */
+  test(input: string): boolean;
+
+  /**
+   * Returns the inputs that match the compiled patterns
+   */
+  filter(inputs: MatcherInput): string[];
+
+  /**
+   * Returns the indices of every pattern that hits the input, in pattern
+   * order; a negated pattern hits when it excludes the input
+   */
+  hits(input: string): number[];
+
+  /**
+   * Invalid patterns left out with `strict: false`
+   */
+  readonly diagnostics: readonly PatternDiagnostic[];
+}
+
+/**
+ * Options for matching async iterables
+ */
+export interface AsyncMatchOptions extends MatcherOptions {
+  /**
+   * Number of inputs to match before yielding to the event loop
+   * @default 1000
+   */
+  yieldEvery?: number;
+
+  /**
+   * Signal that stops the iteration when aborted
+   * @default undefined
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for matching streams
+ */
+export interface StreamMatchOptions extends MatcherOptions {
+  /**
+   * Treat every chunk as one input instead of splitting text into lines
+   * @default false
+   */
+  objectMode?: boolean;
+}
+
+/**
+ * Options for matching on worker threads
+ */
+export interface ParallelMatchOptions extends MatcherOptions {
+  /**
+   * Number of worker threads
+   * @default os.cpus().length - 1 (at least 1)
+   */
+  workers?: number;
+
+  /**
+   * Inputs per chunk sent to a worker
+   * @default enough for about four chunks per worker, at least 1000
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Data a `matchParallel` worker starts with
+ */
+export interface ParallelWorkerData {
+  patterns: readonly string[];
+  options: MatcherOptions;
+}
+
+/**
+ * Chunk of inputs sent to a `matchParallel` worker
+ */
+export interface ParallelChunk {
+  id: number;
+  inputs: readonly string[];
+}
+
+/**
+ * Positions of the matching inputs within a chunk
+ */
+export interface ParallelChunkResult {
+  id: number;
+  matches: number[];
+}
+
+/**
+ * Options whose influence on a result `explain` reports
+ */
+export type ExplainOption =
+  | "partialMatch"
+  | "wordBoundary"
+  | "accentInsensitive"
+  | "fuzzyMatch";
+
+/**
+ * Why a pattern set matched or rejected an input
+ *
+ * - `included`: a positive pattern matched
+ * - `excluded`: a negated pattern excluded the input
+ * - `no-positive-match`: no positive pattern matched
+ * - `not-all-matched`: with `allPatterns`, some positive pattern did not match
+ * - `no-exclusion`: only negated patterns were given and none excluded the input
+ * - `default`: in `ordered` mode no pattern matched
+ * - `no-patterns`: the pattern list was empty
+ */
+export type ExplainReason =
+  | "included"
+  | "excluded"
+  | "no-positive-match"
+  | "not-all-matched"
+  | "no-exclusion"
+  | "default"
+  | "no-patterns";
+
+/**
+ * How a single pattern was evaluated against an input
+ */
+export interface PatternExplanation {
+  /**
+   * The pattern as given
+   */
+  pattern: string;
+
+  /**
+   * Position of the pattern in the pattern list
+   */
+  index: number;
+
+  /**
+   * The pattern after case, accent and path normalization
+   */
+  normalized: string;
+
+  /**
+   * Whether the pattern is negated
+   */
+  negated: boolean;
+
+  /**
+   * Source of the compiled regex (absent for fuzzy, segment and empty patterns)
+   */
+  source?: string;
+
+  /**
+   * Whether the pattern, ignoring negation, matched the input
+   */
+  matched: boolean;
+
+  /**
+   * What the pattern did to the input: include it, exclude it, or nothing
+   */
+  effect: "include" | "exclude" | "none";
+
+  /**
+   * Whether this pattern decided the final result
+   */
+  decided: boolean;
+
+  /**
+   * Enabled options without which `matched` would be different
+   */
+  affectedBy: ExplainOption[];
+}
+
+/**
+ * Explanation of how an input was matched against a pattern list
+ */
+export interface MatchExplanation {
+  /**
+   * The input as given
+   */
+  input: string;
+
+  /**
+   * The input after normalization
+   */
+  normalizedInput: string;
+
+  /**
+   * The final decision
+   */
+  matched: boolean;
+
+  /**
+   * The pattern that decided the result (if any)
+   */
+  pattern?: string;
+
+  /**
+   * Position of `pattern` in the pattern list
+   */
+  patternIndex?: number;
+
+  /**
+   * Why the input was matched or rejected
+   */
+  reason: ExplainReason;
+
+  /**
+   * Human-readable description of the reason
+   */
+  message: string;
+
+  /**
+   * Evaluation of every pattern, in pattern order
+   */
+  patterns: PatternExplanation[];
+}
+
+/**
+ * Rule parsed from a line of an ignore file
+ */
+export interface IgnoreRule {
+  /**
+   * The line as written, without trailing spaces
+   */
+  pattern: string;
+
+  /**
+   * Line number in the ignore file (1-based)
+   */
+  line: number;
+
+  /**
+   * Directory of the ignore file, relative to the root (`""` for the root)
+   */
+  base: string;
+
+  /**
+   * Whether the rule re-includes paths (`!pattern`)
+   */
+  negated: boolean;
+
+  /**
+   * Whether the rule only matches directories (`pattern/`)
+   */
+  directoryOnly: boolean;
+
+  /**
+   * Whether the rule is relative to `base` instead of matching at any depth
+   */
+  anchored: boolean;
+
+  /**
+   * Glob the rule compiles to, matched against paths relative to `base`
+   */
+  glob: string;
+}
+
+/**
+ * Options for ignore-file matching
+ */
+export interface IgnoreOptions {
+  /**
+   * Treat uppercase and lowercase characters as different, as git does
+   * @default true
+   */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Matcher built from one or more ignore files
+ */
+export interface IgnoreMatcher {
+  /**
+   * Rules in evaluation order
+   */
+  readonly rules: readonly IgnoreRule[];
+
+  /**
+   * Adds the rules of an ignore file located in `base` (the root by default)
+   */
+  add(text: string | readonly string[], base?: string): IgnoreMatcher;
+
+  /**
+   * Checks whether a path is ignored; paths ending in `/` are directories
+   */
+  ignores(path: string): boolean;
+
+  /**
+   * Returns the paths that are not ignored
+   */
+  filter(paths: MatcherInput): string[];
+}
+
+/**
+ * Performance monitoring interface
+ */
+export interface PerformanceMonitor {
+  /**
+   * Called when a matching call starts
+   */
   start(): void;
+
+  /**
+   * Called when the call ends; returns the elapsed milliseconds
+   */
   end(): number;
+
+  /**
+   * Receives the statistics of each finished call
+   */
+  record?(stats: MatchStats): void;
+
+  /**
+   * Returns the statistics collected so far
+   */
   getStats(): MatchStats;
 }
+
+/**
+ * Segment of a parsed route
+ */
+export interface RouteSegment {
+  /**
+   * `static` text, a `param` matching one segment or a `splat` matching
+   * several segments
+   */
+  type: "static" | "param" | "splat";
+
+  /**
+   * Static text, or the parameter name
+   */
+  value: string;
+
+  /**
+   * Whether the segment may be absent (`:name?` or `*name?`)
+   */
+  optional: boolean;
+
+  /**
+   * Regex source a parameter's segment must match in full (`:name(regex)`)
+   */
+  constraint?: string;
+}
+
+/**
+ * Route segment compiled for matching: static text and constraints get a regex
+ */
+export interface CompiledRouteSegment extends RouteSegment {
+  regex?: RegExp;
+}
+
+/**
+ * Parameters extracted by a route; optional parameters that are absent are
+ * `undefined`
+ */
+export type RouteParams = Record<string, string | undefined>;
+
+/**
+ * Route that matched a path, with its extracted parameters
+ */
+export interface RouteMatch {
+  /**
+   * The route that matched
+   */
+  route: string;
+
+  /**
+   * Position of the route in the route list
+   */
+  index: number;
+
+  /**
+   * Extracted parameters
+   */
+  params: RouteParams;
+
+  /**
+   * Specificity of each route segment, used for ranking (higher is more
+   * specific)
+   */
+  specificity: number[];
+}
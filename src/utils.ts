@@ -1,136 +1,614 @@
-import type { MatcherOptions, PatternCacheEntry } from "./types";
+import type {
+  MatcherOptions,
+  NormalizedText,
+  PatternCacheEntry,
+  PatternCacheStats,
+  PatternFragment,
+  PatternFragmentType,
+  PatternIssue,
+  PatternToken,
+  PatternValidation,
+  CompiledRegExp,
+  DistanceFunction,
+  FuzzyCriteria,
+  SimilarityScorer,
+} from "./types";
+import { compileGlob, escapeLiteral, validateGlob } from "./glob";
+import { validateRoute } from "./route";
+import { PatternCache, defaultPatternCache } from "./cache";
+import { foldCase, removeDiacritics } from "./folding";
+import { MatcherOptionsError, PatternSyntaxError } from "./errors";
 
 /**
- * Cache for compiled regex patterns to improve performance
+ * Escapes special regex characters except for our wildcard characters
  */
-const patternCache = new Map<string, PatternCacheEntry>();
+export function escapeRegExp(string: string): string {
+  return string.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
 
 /**
- * Maximum cache size to prevent memory leaks
+ * Creates a fragment that has no pattern token of its own
  */
-const MAX_CACHE_SIZE = 1000;
+function syntheticFragment(
+  type: PatternFragmentType,
+  source: string,
+  offset: number
+): PatternFragment {
+  return { type, token: "", start: offset, end: offset, source };
+}
 
 /**
- * Escapes special regex characters except for our wildcard characters
+ * Compiles a pattern (without negation) into an anchored regex and its fragments
  */
-export function escapeRegExp(string: string): string {
-  return string.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+function buildPatternRegExp(
+  pattern: string,
+  options: MatcherOptions
+): { regex: RegExp; isNegated: boolean; fragments: PatternFragment[] } {
+  const isNegated = isNegatedPattern(pattern, options);
+  const offset = isNegated ? 1 : 0;
+  const cleanPattern = pattern.slice(offset);
+  const isGlob = options.syntax === "glob" && !options.literal;
+
+  // Path mode reuses the glob compiler so `*` and `?` stop at `/`
+  const body: PatternFragment[] = options.literal
+    ? [
+        {
+          type: "literal",
+          token: pattern,
+          start: 0,
+          end: pattern.length,
+          source: escapeLiteral(pattern),
+        },
+      ]
+    : compileGlob(
+        cleanPattern,
+        {
+          extended: isGlob,
+          segments: isGlob || options.path === true,
+          dot: !options.path || options.dot === true,
+        },
+        offset
+      );
+
+  // Handle separator-based matching
+  if (options.separator && !isGlob && !options.path) {
+    const separator = options.separator;
+    for (const fragment of body) {
+      if (fragment.type === "literal") {
+        const text = options.literal
+          ? fragment.token
+          : getLiteralText(fragment.token);
+        fragment.source = text.split(separator).map(escapeLiteral).join(".*?");
+      }
+    }
+  }
+
+  const end = pattern.length;
+  const fragments: PatternFragment[] = [
+    syntheticFragment("anchor", "^", offset),
+    // Handle word boundaries
+    ...(options.wordBoundary
+      ? [syntheticFragment("boundary", "\\b", offset)]
+      : []),
+    ...body,
+    ...(options.wordBoundary
+      ? [syntheticFragment("boundary", "\\b", end)]
+      : []),
+    syntheticFragment("anchor", "$", end),
+  ];
+
+  const flags = options.caseSensitive ? "" : "i";
+  const regex = new RegExp(
+    fragments.map((fragment) => fragment.source).join(""),
+    flags
+  );
+
+  return { regex, isNegated, fragments };
 }
 
 /**
  * Compiles a pattern into a regular expression with caching
+ *
+ * @param pattern - Pattern to compile
+ * @param options - Matching options
+ * @param cache - Cache to look the pattern up in and store it to
  */
 export function compilePattern(
   pattern: string,
-  options: MatcherOptions = {}
+  options: MatcherOptions = {},
+  cache: PatternCache = defaultPatternCache
 ): PatternCacheEntry {
-  const cacheKey = `${pattern}:${JSON.stringify(options)}`;
+  const cacheKey = PatternCache.key(pattern, options);
 
-  // Check cache first
-  const cached = patternCache.get(cacheKey);
+  const cached = cache.get(cacheKey);
   if (cached) {
     return cached;
   }
 
-  // Clean cache if it gets too large
-  if (patternCache.size >= MAX_CACHE_SIZE) {
-    const oldestEntry = patternCache.keys().next().value;
-    if (oldestEntry) {
-      patternCache.delete(oldestEntry);
-    }
-  }
+  const { regex, isNegated, fragments } = buildPatternRegExp(pattern, options);
+
+  const entry: PatternCacheEntry = {
+    regex,
+    isNegated,
+    originalPattern: pattern,
+    compiledAt: Date.now(),
+    fragments,
+  };
+
+  cache.set(cacheKey, entry);
+  return entry;
+}
 
-  const isNegated = pattern.startsWith("!");
-  const cleanPattern = isNegated ? pattern.slice(1) : pattern;
+/**
+ * Fragment types whose matched text is reported as a capture
+ */
+const CAPTURED_FRAGMENTS = new Set<PatternFragmentType>([
+  "star",
+  "globstar",
+  "char",
+]);
 
-  // First escape regex characters except * and ?
-  let regexPattern = cleanPattern.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+/**
+ * Returns the text matched by each wildcard of a compiled pattern, or null if
+ * the input does not match
+ *
+ * Every fragment gets its own group, so the position of each wildcard follows
+ * from the lengths of the groups before it. Captures are taken from
+ * `original` so they keep their case and accents: pass the result of
+ * {@link normalizeWithOffsets} when normalization changed the length of the
+ * input, or a string of the same length as the matched `input` (for example
+ * before lowercasing).
+ *
+ * @example
+ * ```typescript
+ * captureFragments(compilePattern('*.test.*'), 'app.test.ts');
+ * //=> ['app', 'ts']
+ * ```
+ */
+export function captureFragments(
+  entry: PatternCacheEntry,
+  input: string,
+  original: string | NormalizedText = input
+): string[] | null {
+  const grouped = entry.fragments.filter(
+    (fragment) => fragment.type !== "anchor" && fragment.type !== "boundary"
+  );
 
-  // Replace ? first, then *
-  regexPattern = regexPattern
-    .replace(/\?/g, ".") // Replace ? with single character match
-    .replace(/\*/g, ".*"); // Replace * with match
+  entry.fragmentRegex ??= new RegExp(
+    entry.fragments
+      .map((fragment) =>
+        grouped.includes(fragment) ? `(${fragment.source})` : fragment.source
+      )
+      .join(""),
+    entry.regex.flags
+  );
 
-  // Handle word boundaries
-  if (options.wordBoundary) {
-    regexPattern = `\\b${regexPattern}\\b`;
+  const match = entry.fragmentRegex.exec(input);
+  if (!match) {
+    return null;
   }
 
-  // Handle separator-based matching
-  if (options.separator) {
-    const escapedSeparator = escapeRegExp(options.separator);
-    regexPattern = regexPattern.replace(
-      new RegExp(escapedSeparator, "g"),
-      ".*?"
+  const slice = (start: number, end: number): string => {
+    if (typeof original !== "string") {
+      return original.original.slice(...originalRange(original, start, end));
+    }
+    const source = original.length === input.length ? original : input;
+    return source.slice(start, end);
+  };
+  const captures: string[] = [];
+  let position = 0;
+
+  grouped.forEach((fragment, index) => {
+    const length = (match[index + 1] ?? "").length;
+    if (CAPTURED_FRAGMENTS.has(fragment.type)) {
+      captures.push(slice(position, position + length));
+    }
+    position += length;
+  });
+
+  return captures;
+}
+
+/**
+ * Compiles a pattern into a standalone regex with a map back to the pattern
+ *
+ * The regex applies negation itself, so it can be handed to systems that only
+ * accept regular expressions. Case sensitivity, `wordBoundary`, `syntax` and
+ * path options behave as in the matching engine; `accentInsensitive`,
+ * `locale`, `caseFolding`, `normalization` and `partialMatch` depend on input
+ * normalization and are not reflected.
+ * Route syntax is not supported.
+ *
+ * @example
+ * ```typescript
+ * const { regex, fragments } = makeRe('*.js');
+ * regex.source;
+ * //=> '^.*\\.js$'
+ * fragments.map((f) => [f.token, f.source]);
+ * //=> [['', '^'], ['*', '.*'], ['.js', '\\.js'], ['', '$']]
+ * ```
+ */
+export function makeRe(
+  pattern: string,
+  options: MatcherOptions = {}
+): CompiledRegExp {
+  if (options.syntax === "route") {
+    throw new MatcherOptionsError(
+      "syntax",
+      options.syntax,
+      "Route patterns are matched segment by segment and cannot be compiled to a regex"
     );
   }
 
-  const flags = options.caseSensitive ? "" : "i";
-  const regex = new RegExp(`^${regexPattern}$`, flags);
+  // Reject patterns that aren't strings before normalizing them
+  if (typeof pattern !== "string") {
+    assertValidPattern(pattern, options);
+  }
 
-  const entry: PatternCacheEntry = {
-    regex,
+  // Backslashes in wildcard patterns are separators in path mode
+  const source =
+    options.path && options.syntax !== "glob" ? toPosixPath(pattern) : pattern;
+
+  assertValidPattern(source, options);
+
+  const { regex, isNegated, fragments } = buildPatternRegExp(source, options);
+
+  if (!isNegated) {
+    return { regex, isNegated, fragments };
+  }
+
+  // A negated pattern matches every input the pattern itself rejects
+  const negatedFragments: PatternFragment[] = [
+    syntheticFragment("anchor", "^", 0),
+    { type: "negation", token: "!", start: 0, end: 1, source: "(?!" },
+    ...fragments,
+    syntheticFragment("negation", ")", source.length),
+    syntheticFragment("anchor", ".*$", source.length),
+  ];
+
+  return {
+    regex: new RegExp(
+      negatedFragments.map((fragment) => fragment.source).join(""),
+      regex.flags
+    ),
     isNegated,
-    originalPattern: pattern,
-    compiledAt: Date.now(),
+    fragments: negatedFragments,
   };
+}
 
-  patternCache.set(cacheKey, entry);
-  return entry;
+/**
+ * Compiles a pattern into a standalone regular expression
+ *
+ * @example
+ * ```typescript
+ * toRegExp('!*.min.js').test('app.js');
+ * //=> true
+ * ```
+ */
+export function toRegExp(
+  pattern: string,
+  options: MatcherOptions = {}
+): RegExp {
+  return makeRe(pattern, options).regex;
 }
 
 /**
  * Normalizes a string based on options
+ *
+ * Applies the `normalization` form, folds case unless `caseSensitive` is set
+ * and removes diacritics with `accentInsensitive`. Inputs and patterns go
+ * through the same steps, and the result is put back into the normalization
+ * form (NFC by default once diacritics were removed), so equivalent spellings
+ * come out the same.
+ *
+ * @example
+ * ```typescript
+ * normalizeString('Straße', { caseFolding: 'full' }); //=> 'strasse'
+ * normalizeString('Ｆｉｌｅ', { normalization: 'NFKC' }); //=> 'file'
+ * normalizeString('Đà Nẵng', { accentInsensitive: true }); //=> 'da nang'
+ * ```
  */
 export function normalizeString(
   input: string,
   options: MatcherOptions = {}
 ): string {
-  let normalized = input;
+  const form = options.normalization;
+  let normalized = form ? input.normalize(form) : input;
 
   if (!options.caseSensitive) {
-    normalized = normalized.toLowerCase();
+    normalized = foldCase(normalized, options);
   }
 
   if (options.accentInsensitive) {
-    normalized = normalized.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    normalized = removeDiacritics(normalized);
+  }
+
+  // Folding and removing diacritics can leave decomposed characters behind
+  if (form || options.accentInsensitive) {
+    normalized = normalized.normalize(form ?? "NFC");
   }
 
   return normalized;
 }
 
 /**
- * Calculates Levenshtein distance between two strings
+ * Splits a string into the pieces normalization never merges: a character
+ * with the combining marks and conjoining Hangul jamo that follow it
  */
-export function levenshteinDistance(a: string, b: string): number {
-  if (a.length === 0) return b.length;
-  if (b.length === 0) return a.length;
+const NORMALIZATION_UNITS =
+  /[^\p{M}][\p{M}\u1160-\u11ff\ud7b0-\ud7ff]*|[\p{M}\u1160-\u11ff\ud7b0-\ud7ff]+/gsu;
+
+/**
+ * Normalizes a string like {@link normalizeString} and records where each
+ * character of the result comes from in the original string
+ *
+ * Use it to report positions found in the normalized string, such as
+ * highlighted ranges, against the string the caller passed in.
+ *
+ * @example
+ * ```typescript
+ * const normalized = normalizeWithOffsets('Straße', { caseFolding: 'full' });
+ * normalized.text; //=> 'strasse'
+ * normalized.starts; //=> [0, 1, 2, 3, 4, 4, 5]
+ * originalRange(normalized, 4, 7); //=> [4, 6]
+ * ```
+ */
+export function normalizeWithOffsets(
+  input: string,
+  options: MatcherOptions = {}
+): NormalizedText {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let text = "";
+
+  for (const unit of input.matchAll(NORMALIZATION_UNITS)) {
+    const start = unit.index!;
+    const end = start + unit[0].length;
+    const normalized = normalizeString(unit[0], options);
+
+    text += normalized;
+    for (let i = 0; i < normalized.length; i++) {
+      starts.push(start);
+      ends.push(end);
+    }
+  }
+
+  return { original: input, text, starts, ends };
+}
+
+/**
+ * Characters with a meaning in wildcard and glob patterns
+ */
+const PATTERN_SYNTAX = /[\\*?[\]{}()!@+|,]/;
+
+/**
+ * Normalizes a pattern like {@link normalizeString}, escaping the syntax
+ * characters that normalization makes of other characters so they stay
+ * literal, e.g. the `*` that NFKC makes of a fullwidth `＊`
+ *
+ * Literal and fuzzy patterns don't read escapes and are normalized as they are.
+ */
+export function normalizePattern(
+  pattern: string,
+  options: MatcherOptions = {}
+): string {
+  if (!options.normalization || options.literal || options.fuzzyMatch) {
+    return normalizeString(pattern, options);
+  }
+
+  let normalized = "";
+  let escaped = false;
+
+  for (const [unit] of pattern.matchAll(NORMALIZATION_UNITS)) {
+    const text = normalizeString(unit, options);
+
+    if (text === unit) {
+      normalized += unit;
+      escaped = !escaped && unit === "\\";
+      continue;
+    }
+
+    // A preceding backslash already escapes the first character
+    [...text].forEach((char, index) => {
+      const literal = (escaped && index === 0) || !PATTERN_SYNTAX.test(char);
+      normalized += literal ? char : `\\${char}`;
+    });
+    escaped = false;
+  }
+
+  return normalized;
+}
+
+/**
+ * Maps the `[start, end)` range of a normalized string to the range of the
+ * original string it came from
+ */
+export function originalRange(
+  normalized: NormalizedText,
+  start: number,
+  end: number
+): [number, number] {
+  const from =
+    start < normalized.text.length
+      ? normalized.starts[start]!
+      : normalized.original.length;
+  return [from, end > start ? normalized.ends[end - 1]! : from];
+}
+
+/**
+ * Returns the current time in milliseconds from `performance.now()`, or from
+ * `Date.now()` on runtimes without a global `performance`
+ */
+export function now(): number {
+  return typeof globalThis.performance?.now === "function"
+    ? globalThis.performance.now()
+    : Date.now();
+}
+
+/**
+ * Converts Windows `\\` separators to `/`
+ */
+export function toPosixPath(path: string): string {
+  return path.replace(/\\/g, "/");
+}
+
+/**
+ * Returns the last `/`-separated segment of a path
+ */
+export function getBasename(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/**
+ * Longest string handled by the bit-parallel distance, one bit per character
+ */
+const MYERS_MAX_LENGTH = 32;
+
+/**
+ * Bitmask of the positions of each UTF-16 code unit in the bit-parallel
+ * pattern; entries are cleared again after every call
+ */
+const myersPeq = new Uint32Array(0x10000);
+
+/**
+ * Myers/Hyyrö bit-parallel Levenshtein distance for `a.length <= 32`
+ *
+ * Each column of the DP matrix is held as bit vectors of +1/-1 vertical
+ * deltas, so a whole column is computed with a handful of word operations.
+ */
+function myersDistance(a: string, b: string, maxDistance: number): number {
+  const m = a.length;
+  const n = b.length;
+  const last = 1 << (m - 1);
+
+  for (let i = 0; i < m; i++) {
+    myersPeq[a.charCodeAt(i)]! |= 1 << i;
+  }
+
+  let positive = -1; // vertical +1 deltas
+  let negative = 0; // vertical -1 deltas
+  let score = m;
+
+  for (let j = 0; j < n; j++) {
+    const eq = myersPeq[b.charCodeAt(j)]!;
+    const xv = eq | negative;
+    const xh = (((eq & positive) + positive) ^ positive) | eq;
+    let horizontalPositive = negative | ~(xh | positive);
+    let horizontalNegative = positive & xh;
+
+    if (horizontalPositive & last) {
+      score++;
+    } else if (horizontalNegative & last) {
+      score--;
+    }
+
+    // Every remaining column can lower the score by at most one
+    if (score - (n - j - 1) > maxDistance) {
+      break;
+    }
 
-  const matrix: number[][] = Array(a.length + 1)
-    .fill(null)
-    .map(() => Array(b.length + 1).fill(0));
+    horizontalPositive = (horizontalPositive << 1) | 1;
+    horizontalNegative <<= 1;
+    positive = horizontalNegative | ~(xv | horizontalPositive);
+    negative = horizontalPositive & xv;
+  }
 
-  // Initialize first row and column
-  for (let i = 0; i <= a.length; i++) {
-    matrix[i]![0] = i;
+  for (let i = 0; i < m; i++) {
+    myersPeq[a.charCodeAt(i)] = 0;
   }
-  for (let j = 0; j <= b.length; j++) {
-    matrix[0]![j] = j;
+
+  return score;
+}
+
+/**
+ * Levenshtein distance over two typed-array rows, restricted to the diagonal
+ * band `|i - j| <= maxDistance` (Ukkonen); expects `a.length <= b.length`
+ */
+function bandedDistance(a: string, b: string, maxDistance: number): number {
+  const m = a.length;
+  const n = b.length;
+  const band = Math.min(maxDistance, n);
+  // Stands in for every cell outside the band
+  const outside = band + 1;
+
+  let previous = new Uint32Array(n + 1);
+  let current = new Uint32Array(n + 1);
+
+  for (let j = 0; j <= n; j++) {
+    previous[j] = j <= band ? j : outside;
   }
 
-  // Fill the matrix
-  for (let i = 1; i <= a.length; i++) {
-    for (let j = 1; j <= b.length; j++) {
-      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-      matrix[i]![j] = Math.min(
-        matrix[i - 1]![j]! + 1, // deletion
-        matrix[i]![j - 1]! + 1, // insertion
-        matrix[i - 1]![j - 1]! + cost // substitution
+  for (let i = 1; i <= m; i++) {
+    const start = Math.max(1, i - band);
+    const end = Math.min(n, i + band);
+    current[start - 1] = start === 1 ? i : outside;
+    let rowMin = current[start - 1]!;
+
+    for (let j = start; j <= end; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      const distance = Math.min(
+        previous[j]! + 1, // deletion
+        current[j - 1]! + 1, // insertion
+        previous[j - 1]! + cost, // substitution
+        outside
       );
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (end < n) {
+      current[end + 1] = outside;
     }
+
+    // Distances never decrease from one row to the next
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return previous[n]!;
+}
+
+/**
+ * Calculates Levenshtein distance between two strings
+ *
+ * Strings of up to 32 characters use a bit-parallel algorithm; longer ones
+ * use two rows of the DP matrix. With `maxDistance`, only a band of the matrix
+ * is computed, computation stops as soon as the distance is known to exceed it
+ * and `maxDistance + 1` is returned.
+ *
+ * @example
+ * ```typescript
+ * levenshteinDistance('kitten', 'sitting');
+ * //=> 3
+ * levenshteinDistance('kitten', 'sitting', 1);
+ * //=> 2
+ * ```
+ */
+export function levenshteinDistance(
+  a: string,
+  b: string,
+  maxDistance: number = Infinity
+): number {
+  if (a === b) return 0;
+
+  // The shorter string becomes the pattern
+  if (a.length > b.length) {
+    [a, b] = [b, a];
   }
 
-  return matrix[a.length]![b.length]!;
+  // The distance is at least the difference in length
+  if (b.length - a.length > maxDistance) return maxDistance + 1;
+  if (a.length === 0) return b.length;
+
+  const distance =
+    a.length <= MYERS_MAX_LENGTH
+      ? myersDistance(a, b, maxDistance)
+      : bandedDistance(a, b, maxDistance);
+
+  return distance > maxDistance ? maxDistance + 1 : distance;
 }
 
 /**
@@ -146,14 +624,91 @@ export function calculateSimilarity(a: string, b: string): number {
   return 1 - distance / maxLength;
 }
 
+/**
+ * Resolves the fuzzy matching options into a single cutoff
+ *
+ * `maxDistance` takes precedence over `minSimilarity`, which takes precedence
+ * over `fuzzyThreshold`. A `fuzzyThreshold` from 0 to 1 is a minimum
+ * similarity; an integer above 1 is a maximum edit distance.
+ *
+ * @example
+ * ```typescript
+ * resolveFuzzyCriteria({ fuzzyThreshold: 0.8 });
+ * //=> { minSimilarity: 0.8 }
+ * resolveFuzzyCriteria({ fuzzyThreshold: 2 });
+ * //=> { maxDistance: 2 }
+ * ```
+ */
+export function resolveFuzzyCriteria(
+  options: Pick<
+    MatcherOptions,
+    "fuzzyThreshold" | "maxDistance" | "minSimilarity"
+  > = {}
+): FuzzyCriteria {
+  const { maxDistance, minSimilarity, fuzzyThreshold = 0.6 } = options;
+
+  if (maxDistance !== undefined) {
+    if (!Number.isInteger(maxDistance) || maxDistance < 0) {
+      throw new MatcherOptionsError(
+        "maxDistance",
+        maxDistance,
+        `maxDistance must be a non-negative integer: ${maxDistance}`
+      );
+    }
+    return { maxDistance };
+  }
+
+  if (minSimilarity !== undefined) {
+    if (!(minSimilarity >= 0 && minSimilarity <= 1)) {
+      throw new MatcherOptionsError(
+        "minSimilarity",
+        minSimilarity,
+        `minSimilarity must be between 0 and 1: ${minSimilarity}`
+      );
+    }
+    return { minSimilarity };
+  }
+
+  if (fuzzyThreshold >= 0 && fuzzyThreshold <= 1) {
+    return { minSimilarity: fuzzyThreshold };
+  }
+  if (Number.isInteger(fuzzyThreshold) && fuzzyThreshold > 1) {
+    return { maxDistance: fuzzyThreshold };
+  }
+
+  throw new MatcherOptionsError(
+    "fuzzyThreshold",
+    fuzzyThreshold,
+    `fuzzyThreshold must be between 0 and 1 or an integer edit distance: ${fuzzyThreshold}`
+  );
+}
+
 /**
  * Performs fuzzy matching between input and pattern
+ *
+ * An input equal to the pattern always matches with a score of 1. A
+ * distance cutoff computes `distance(input, pattern)` first, stopping as
+ * soon as the cap is exceeded; inputs over the cap score 0 without running
+ * the scorer. An input containing the pattern is as many edits away as it has
+ * extra characters, so the cap applies to it too. A similarity cutoff compares
+ * `scorer(input, pattern)`. Inputs containing the pattern get a bonus on top
+ * of the scorer's score that grows with the share of the input the pattern
+ * covers, so the score stays within the range the scorer gives.
+ *
+ * @param threshold - Cutoff with the meaning of `fuzzyThreshold`, or resolved
+ *   criteria
  */
 export function fuzzyMatch(
   input: string,
   pattern: string,
-  threshold: number = 0.2
-): { matched: boolean; score: number } {
+  threshold: number | FuzzyCriteria = 0.6,
+  scorer: SimilarityScorer = calculateSimilarity,
+  distance: DistanceFunction = levenshteinDistance
+): { matched: boolean; score: number; distance?: number } {
+  const criteria =
+    typeof threshold === "number"
+      ? resolveFuzzyCriteria({ fuzzyThreshold: threshold })
+      : threshold;
   const normalizedInput = input.toLowerCase();
   const normalizedPattern = pattern.toLowerCase().replace(/[*?!]/g, "");
 
@@ -161,15 +716,65 @@ export function fuzzyMatch(
     return { matched: true, score: 1 };
   }
 
-  // Try exact substring match first
-  if (normalizedInput.includes(normalizedPattern)) {
-    return { matched: true, score: 0.9 };
+  if (normalizedInput === normalizedPattern) {
+    return {
+      matched: true,
+      score: 1,
+      ...(criteria.maxDistance !== undefined && { distance: 0 }),
+    };
+  }
+
+  const isSubstring = normalizedInput.includes(normalizedPattern);
+
+  if (criteria.maxDistance !== undefined) {
+    const { maxDistance } = criteria;
+    // Deleting the extra characters is the cheapest way to reach a substring
+    const edits = isSubstring
+      ? Math.min(
+          normalizedInput.length - normalizedPattern.length,
+          maxDistance + 1
+        )
+      : distance(normalizedInput, normalizedPattern, maxDistance);
+
+    if (edits > maxDistance) {
+      return { matched: false, score: 0, distance: edits };
+    }
+
+    return {
+      matched: true,
+      score: scoreFuzzy(
+        normalizedInput,
+        normalizedPattern,
+        isSubstring,
+        scorer
+      ),
+      distance: edits,
+    };
   }
 
-  const score = calculateSimilarity(normalizedInput, normalizedPattern);
-  const matched = score >= threshold;
+  const score = scoreFuzzy(
+    normalizedInput,
+    normalizedPattern,
+    isSubstring,
+    scorer
+  );
+  return { matched: score >= (criteria.minSimilarity ?? 0), score };
+}
 
-  return { matched, score };
+/**
+ * Scores a fuzzy match, closing the gap to 1 by the share of the input
+ * covered when the input contains the pattern
+ */
+function scoreFuzzy(
+  input: string,
+  pattern: string,
+  isSubstring: boolean,
+  scorer: SimilarityScorer
+): number {
+  const score = scorer(input, pattern);
+  return isSubstring
+    ? score + (1 - score) * (pattern.length / input.length)
+    : score;
 }
 
 /**
@@ -182,6 +787,101 @@ export function splitIntoSegments(input: string, separator?: string): string[] {
   return input.split(separator).filter((segment) => segment.length > 0);
 }
 
+/**
+ * Characters outside the wildcard syntax that must be escaped to be matched
+ */
+const UNSUPPORTED_CHARS = new Set("+^${}()|[]");
+
+/**
+ * Splits a wildcard pattern into tokens
+ *
+ * A leading `!` negates the pattern, `*` runs and `?` are wildcards, and `\\`
+ * makes the next character literal, so `\\*`, `\\?` and a leading `\\!`
+ * match those characters. A trailing `\\` is an escape token without a
+ * character to escape.
+ *
+ * @example
+ * ```typescript
+ * tokenizePattern('!a\\*?').map((token) => [token.type, token.value]);
+ * //=> [['negation', '!'], ['literal', 'a'], ['escape', '*'], ['char', '?']]
+ * ```
+ */
+export function tokenizePattern(pattern: string): PatternToken[] {
+  const tokens: PatternToken[] = [];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    if (char === "!" && i === 0) {
+      tokens.push({ type: "negation", value: char, start: i, end: i + 1 });
+    } else if (char === "\\") {
+      const end = Math.min(i + 2, pattern.length);
+      tokens.push({
+        type: "escape",
+        value: pattern.slice(i + 1, end) || char,
+        start: i,
+        end,
+      });
+      i = end - 1;
+    } else if (char === "*") {
+      let end = i + 1;
+      while (pattern[end] === "*") {
+        end++;
+      }
+      tokens.push({
+        type: "star",
+        value: pattern.slice(i, end),
+        start: i,
+        end,
+      });
+      i = end - 1;
+    } else if (char === "?") {
+      tokens.push({ type: "char", value: char, start: i, end: i + 1 });
+    } else {
+      tokens.push({ type: "literal", value: char, start: i, end: i + 1 });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns the literal text of a pattern: its characters without negation and
+ * wildcards, with escapes resolved
+ *
+ * @example
+ * ```typescript
+ * getLiteralText('!*.test\\?');
+ * //=> '.test?'
+ * ```
+ */
+export function getLiteralText(pattern: string): string {
+  return tokenizePattern(pattern)
+    .filter((token) => token.type === "literal" || token.type === "escape")
+    .map((token) => token.value)
+    .join("");
+}
+
+/**
+ * Escapes a string so that a wildcard or glob pattern matches it literally
+ *
+ * Wildcards, backslashes, a leading `!` and the characters only glob syntax
+ * gives meaning to are escaped with `\\`. Wildcard patterns in `path` mode
+ * treat backslashes as separators; use the `literal` option there instead.
+ *
+ * @example
+ * ```typescript
+ * escapePattern('!important*.txt');
+ * //=> '\\!important\\*.txt'
+ *
+ * isMatch('what?', escapePattern('what?'));
+ * //=> true
+ * ```
+ */
+export function escapePattern(value: string): string {
+  return value.replace(/[*?\\+^${}()|[\]]/g, "\\$&").replace(/^!/, "\\!");
+}
+
 /**
  * Checks if a string contains only wildcard characters
  */
@@ -189,63 +889,147 @@ export function isWildcardOnly(pattern: string): boolean {
   return /^[*?!]*$/.test(pattern);
 }
 
+/**
+ * Checks whether a pattern is negated with a leading `!`
+ *
+ * In glob syntax a leading `!(` starts an extglob group instead, and literal
+ * patterns are never negated.
+ */
+export function isNegatedPattern(
+  pattern: string,
+  options: MatcherOptions = {}
+): boolean {
+  if (!pattern.startsWith("!") || options.literal) {
+    return false;
+  }
+  return !(options.syntax === "glob" && pattern.startsWith("!("));
+}
+
 /**
  * Extracts the base pattern without negation prefix
  */
-export function getBasePattern(pattern: string): string {
-  return pattern.startsWith("!") ? pattern.slice(1) : pattern;
+export function getBasePattern(
+  pattern: string,
+  options: MatcherOptions = {}
+): string {
+  return isNegatedPattern(pattern, options) ? pattern.slice(1) : pattern;
 }
 
 /**
- * Validates pattern syntax
+ * Finds the first problem with a pattern's syntax
  */
-export function validatePattern(pattern: string): {
-  valid: boolean;
-  error?: string;
-} {
-  if (typeof pattern !== "string") {
-    return { valid: false, error: "Pattern must be a string" };
+function findPatternIssue(
+  pattern: string,
+  options: MatcherOptions
+): PatternIssue | undefined {
+  // Glob syntax gives meaning to brackets, braces and parentheses
+  if (options.syntax === "glob") {
+    return validateGlob(pattern);
   }
 
-  if (pattern.length === 0) {
-    return { valid: true };
+  // Route syntax has its own parameter and constraint grammar
+  if (options.syntax === "route") {
+    const offset = isNegatedPattern(pattern, options) ? 1 : 0;
+    const issue = validateRoute(
+      pattern.slice(offset),
+      options.separator ?? "/"
+    );
+    return issue && { ...issue, offset: issue.offset + offset };
   }
 
-  // Check for unescaped regex special characters that we don't support
-  const unsupportedChars = /[+^${}()|[\]\\]/g;
-  const matches = pattern.match(unsupportedChars);
-  if (matches) {
-    const unescapedMatches = matches.filter((char, index) => {
-      const charIndex = pattern.indexOf(char);
-      return charIndex === 0 || pattern[charIndex - 1] !== "\\";
-    });
+  const unsupported: PatternToken[] = [];
 
-    if (unescapedMatches.length > 0) {
+  for (const token of tokenizePattern(pattern)) {
+    if (token.type === "escape" && token.end - token.start < 2) {
       return {
-        valid: false,
-        error: `Unsupported characters found: ${unescapedMatches.join(
-          ", "
-        )}. Use \\\\ to escape them.`,
+        message: `Unfinished escape at position ${token.start}`,
+        offset: token.start,
+        expected: "character to escape",
       };
     }
+    if (token.type === "literal" && UNSUPPORTED_CHARS.has(token.value)) {
+      unsupported.push(token);
+    }
+  }
+
+  const [first] = unsupported;
+  if (first) {
+    return {
+      message: `Unsupported characters found: ${unsupported
+        .map((token) => `"${token.value}" at position ${token.start}`)
+        .join(", ")}. Use \\ to escape them.`,
+      offset: first.start,
+      expected: `"\\${first.value}"`,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates pattern syntax
+ *
+ * Invalid patterns report the offset of the first problem and, where there
+ * is one, what was expected there.
+ *
+ * @example
+ * ```typescript
+ * validatePattern('src/(*.ts');
+ * //=> { valid: false, error: 'Unsupported characters found: ...', offset: 4, expected: '"\\("' }
+ * ```
+ */
+export function validatePattern(
+  pattern: string,
+  options: MatcherOptions = {}
+): PatternValidation {
+  if (typeof pattern !== "string") {
+    return { valid: false, error: "Pattern must be a string" };
+  }
+
+  if (pattern.length === 0 || options.literal) {
+    return { valid: true };
   }
 
-  return { valid: true };
+  const issue = findPatternIssue(pattern, options);
+  return issue
+    ? {
+        valid: false,
+        error: issue.message,
+        offset: issue.offset,
+        ...(issue.expected !== undefined && { expected: issue.expected }),
+      }
+    : { valid: true };
+}
+
+/**
+ * Throws a {@link PatternSyntaxError} if a pattern is invalid
+ */
+export function assertValidPattern(
+  pattern: string,
+  options: MatcherOptions = {}
+): void {
+  const validation = validatePattern(pattern, options);
+
+  if (!validation.valid) {
+    throw new PatternSyntaxError(
+      String(pattern),
+      validation.error!,
+      validation.offset ?? 0,
+      validation.expected
+    );
+  }
 }
 
 /**
- * Clears the pattern cache
+ * Clears the shared pattern cache
  */
 export function clearPatternCache(): void {
-  patternCache.clear();
+  defaultPatternCache.clear();
 }
 
 /**
- * Gets cache statistics
+ * Gets statistics of the shared pattern cache
  */
-export function getCacheStats(): { size: number; maxSize: number } {
-  return {
-    size: patternCache.size,
-    maxSize: MAX_CACHE_SIZE,
-  };
+export function getCacheStats(): PatternCacheStats {
+  return defaultPatternCache.stats();
 }
@@ -0,0 +1,128 @@
+import { literalAffixes, PatternIndex } from "../src/bulk";
+import { compilePattern } from "../src/utils";
+import { createBulkMatcher, createMatcher } from "../src/matcher";
+import type { MatcherOptions } from "../src/types";
+
+describe("bulk", () => {
+  describe("literalAffixes", () => {
+    test("should return the literal text at both ends", () => {
+      expect(
+        literalAffixes(compilePattern("src/*.ts").fragments, false)
+      ).toEqual({ prefix: "src/", suffix: ".ts" });
+      expect(literalAffixes(compilePattern("*").fragments, false)).toEqual({
+        prefix: "",
+        suffix: "",
+      });
+      expect(literalAffixes(compilePattern("readme").fragments, false)).toEqual(
+        { prefix: "readme", suffix: "readme" }
+      );
+    });
+
+    test("should resolve glob escapes", () => {
+      const { fragments } = compilePattern("\\*file*", { syntax: "glob" });
+      expect(literalAffixes(fragments, true).prefix).toBe("*file");
+    });
+  });
+
+  describe("PatternIndex", () => {
+    test("should only return patterns whose affix fits", () => {
+      const index = new PatternIndex();
+      index.add(0, "src/", ".ts");
+      index.add(1, "", ".md");
+      index.add(2, "", "");
+      index.add(3, "lib/", "");
+
+      expect(index.candidates("src/index.ts").sort()).toEqual([0, 2]);
+      expect(index.candidates("docs/readme.md").sort()).toEqual([1, 2]);
+      expect(index.candidates("lib")).toEqual([2]);
+    });
+  });
+
+  describe("createBulkMatcher", () => {
+    test("should report every pattern that hits", () => {
+      const bulk = createBulkMatcher(["*.exe", "setup-*", "!setup-safe.exe"]);
+
+      expect(bulk.hits("setup-tool.exe")).toEqual([0, 1]);
+      expect(bulk.hits("setup-safe.exe")).toEqual([0, 1, 2]);
+      expect(bulk.hits("notes.txt")).toEqual([]);
+      expect(bulk.test("setup-tool.exe")).toBe(true);
+      expect(bulk.test("setup-safe.exe")).toBe(false);
+    });
+
+    test("should handle thousands of patterns", () => {
+      const patterns = Array.from({ length: 5000 }, (_, i) =>
+        i % 2 === 0 ? `file-${i}.js` : `dir-${i}/*`
+      );
+      const bulk = createBulkMatcher([...patterns, "!*.tmp"]);
+
+      expect(bulk.hits("file-42.js")).toEqual([42]);
+      expect(bulk.hits("dir-43/index.js")).toEqual([43]);
+      expect(bulk.test("dir-43/cache.tmp")).toBe(false);
+      expect(bulk.filter(["file-42.js", "file-43.js", "dir-1/a"])).toEqual([
+        "file-42.js",
+        "dir-1/a",
+      ]);
+    });
+
+    test.each<[string, MatcherOptions]>([
+      ["default", {}],
+      ["ordered", { ordered: true }],
+      ["caseSensitive", { caseSensitive: true }],
+      ["wordBoundary", { wordBoundary: true }],
+      ["partialMatch", { partialMatch: true }],
+      ["path", { path: true, matchBase: true }],
+      ["glob", { syntax: "glob", matchBase: true }],
+      ["fuzzy", { fuzzyMatch: true, fuzzyThreshold: 0.6 }],
+      ["separator", { separator: "/" }],
+    ])("should agree with createMatcher (%s)", (_, options) => {
+      const patterns = [
+        "*.ts",
+        "src/*",
+        "!*.d.ts",
+        "README*",
+        "*test*",
+        "lib/**/index.js",
+        ...(options.syntax === "glob" ? ["{a,b}.json", "\\*.md"] : []),
+      ];
+      const inputs = [
+        "index.ts",
+        "index.d.ts",
+        "src/app.js",
+        "src/deep/app.ts",
+        "readme.md",
+        "README.md",
+        "lib/x/index.js",
+        "a.json",
+        "c.json",
+        "*.md",
+        "tests/matcher.test.ts",
+        "",
+      ];
+      const compiled = createMatcher(patterns, options);
+      const bulk = createBulkMatcher(patterns, options);
+
+      expect(bulk.filter(inputs)).toEqual(compiled.filter(inputs));
+      expect(bulk.filter(inputs).length).toBeGreaterThan(0);
+    });
+
+    test("should require every positive pattern with allPatterns", () => {
+      const patterns = ["src/*", "*.ts", "!*.d.ts"];
+      const inputs = ["src/app.ts", "src/app.d.ts", "src/app.js", "app.ts"];
+
+      expect(
+        createBulkMatcher(patterns, { allPatterns: true }).filter(inputs)
+      ).toEqual(["src/app.ts"]);
+    });
+
+    test("should treat empty patterns like createMatcher", () => {
+      const inputs = ["", "a.ts"];
+
+      for (const patterns of [[""], ["!"], ["*.ts", "!"], ["", "!"]]) {
+        expect(createBulkMatcher(patterns).filter(inputs)).toEqual(
+          createMatcher(patterns).filter(inputs)
+        );
+      }
+      expect(createBulkMatcher([]).test("a.ts")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { PatternCache } from "../src/cache";
+import { MatchingEngine } from "../src/engine";
+import { compilePattern } from "../src/utils";
+import { MatcherOptionsError } from "../src/errors";
+
+describe("PatternCache", () => {
+  test("should evict the least recently used entry", () => {
+    const cache = new PatternCache({ maxSize: 2 });
+    const a = compilePattern("a*", {}, cache);
+    compilePattern("b*", {}, cache);
+
+    // Using "a*" again makes "b*" the oldest entry
+    expect(compilePattern("a*", {}, cache)).toBe(a);
+    compilePattern("c*", {}, cache);
+
+    expect(cache.get(PatternCache.key("a*"))).toBe(a);
+    expect(cache.get(PatternCache.key("b*"))).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ size: 2, maxSize: 2, evictions: 1 });
+  });
+
+  test("should count hits and misses", () => {
+    const cache = new PatternCache();
+    compilePattern("*.ts", {}, cache);
+    compilePattern("*.ts", {}, cache);
+    compilePattern("*.js", {}, cache);
+    compilePattern("*.ts", {}, cache);
+
+    expect(cache.stats()).toMatchObject({ hits: 2, misses: 2, hitRate: 0.5 });
+
+    cache.resetStats();
+    expect(cache.stats()).toMatchObject({ size: 2, hits: 0, misses: 0 });
+  });
+
+  test("should expire entries after their time to live", () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new PatternCache({ ttl: 1000 });
+      const entry = compilePattern("*.md", {}, cache);
+
+      jest.advanceTimersByTime(999);
+      expect(compilePattern("*.md", {}, cache)).toBe(entry);
+
+      jest.advanceTimersByTime(1);
+      expect(compilePattern("*.md", {}, cache)).not.toBe(entry);
+      expect(cache.stats()).toMatchObject({ expirations: 1, size: 1 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test("should key entries on the options that change the regex", () => {
+    expect(PatternCache.key("*.ts", { caseSensitive: true, path: true })).toBe(
+      PatternCache.key("*.ts", { path: true, caseSensitive: true })
+    );
+    expect(PatternCache.key("*.ts", { fuzzyThreshold: 0.5 })).toBe(
+      PatternCache.key("*.ts", { caseSensitive: false })
+    );
+    expect(PatternCache.key("*.ts", { caseSensitive: true })).not.toBe(
+      PatternCache.key("*.ts")
+    );
+  });
+
+  test("should not store anything with a size of 0", () => {
+    const cache = new PatternCache({ maxSize: 0 });
+    compilePattern("*", {}, cache);
+    expect(cache.size).toBe(0);
+  });
+
+  test("should reject invalid options", () => {
+    expect(() => new PatternCache({ maxSize: -1 })).toThrow(
+      new MatcherOptionsError(
+        "maxSize",
+        -1,
+        "maxSize must be a non-negative integer: -1"
+      )
+    );
+    expect(() => new PatternCache({ ttl: 0 })).toThrow(MatcherOptionsError);
+    expect(() => new PatternCache({ ttl: 0 })).toThrow(
+      expect.objectContaining({ option: "ttl", value: 0 })
+    );
+  });
+
+  test("should keep engines with their own caches apart", () => {
+    const tenantA = new PatternCache({ maxSize: 1 });
+    const tenantB = new PatternCache({ maxSize: 1 });
+    const engineA = new MatchingEngine({}, tenantA);
+    const engineB = new MatchingEngine({}, tenantB);
+
+    expect(engineA.matchSingle("a.ts", "*.ts").matched).toBe(true);
+    for (let i = 0; i < 5; i++) {
+      engineB.matchSingle("b.js", `b${i}*`);
+    }
+    engineA.matchSingle("a.ts", "*.ts");
+
+    expect(tenantA.stats()).toMatchObject({ hits: 1, evictions: 0 });
+    expect(tenantB.stats().evictions).toBe(4);
+  });
+});
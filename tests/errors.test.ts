@@ -0,0 +1,178 @@
+import {
+  DepthExceededError,
+  MatcherOptionsError,
+  PatternSyntaxError,
+} from "../src/errors";
+import { MatchingEngine } from "../src/engine";
+import {
+  createBulkMatcher,
+  createMatcher,
+  isMatch,
+  matchAdvanced,
+  matcher,
+} from "../src/matcher";
+import { makeRe, validatePattern } from "../src/utils";
+
+/**
+ * Returns what a function throws
+ */
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the function to throw");
+}
+
+describe("errors", () => {
+  describe("PatternSyntaxError", () => {
+    test("should point at the invalid character", () => {
+      const error = thrown(() => matcher(["a"], "src/(*.ts"));
+
+      expect(error).toBeInstanceOf(PatternSyntaxError);
+      expect(error).toMatchObject({
+        name: "PatternSyntaxError",
+        pattern: "src/(*.ts",
+        offset: 4,
+        expected: '"\\("',
+        snippet: "src/(*.ts\n    ^",
+      });
+      expect((error as Error).message).toMatch(
+        /^Invalid pattern: Unsupported characters found: "\(" at position 4/
+      );
+    });
+
+    test("should report offsets for every syntax", () => {
+      expect(
+        thrown(() => isMatch("a", "*.@(js|ts", { syntax: "glob" }))
+      ).toMatchObject({ offset: 2, expected: '")"' });
+      expect(
+        thrown(() => isMatch("/a", "!/:id/:id", { syntax: "route" }))
+      ).toMatchObject({ pattern: "!/:id/:id", offset: 7 });
+      expect(thrown(() => makeRe("end\\"))).toMatchObject({
+        offset: 3,
+        expected: "character to escape",
+      });
+    });
+
+    test("should be described by validatePattern", () => {
+      expect(validatePattern("a|b")).toEqual({
+        valid: false,
+        error:
+          'Unsupported characters found: "|" at position 1. Use \\ to escape them.',
+        offset: 1,
+        expected: '"\\|"',
+      });
+    });
+  });
+
+  describe("MatcherOptionsError", () => {
+    test("should name the invalid option", () => {
+      const error = thrown(() =>
+        matcher(["a"], "a", { fuzzyMatch: true, fuzzyThreshold: -1 })
+      );
+
+      expect(error).toBeInstanceOf(MatcherOptionsError);
+      expect(error).toMatchObject({ option: "fuzzyThreshold", value: -1 });
+      expect(thrown(() => makeRe("/:id", { syntax: "route" }))).toMatchObject({
+        option: "syntax",
+      });
+    });
+  });
+
+  describe("DepthExceededError", () => {
+    test("should report the depth limit", () => {
+      const engine = new MatchingEngine({ maxDepth: 2 });
+      const error = thrown(() => engine.matchSingle("a", "a", 3));
+
+      expect(error).toBeInstanceOf(DepthExceededError);
+      expect(error).toMatchObject({ maxDepth: 2, depth: 3 });
+      expect((error as Error).message).toBe(
+        "Maximum recursion depth (2) exceeded"
+      );
+    });
+  });
+
+  describe("strict: false", () => {
+    test("should leave invalid patterns out and report them", () => {
+      const results = matcher(
+        ["app.ts", "a(b", "notes.md"],
+        ["*.ts", "a(*", "!bad\\", "*.md"],
+        { strict: false }
+      );
+
+      expect(results).toEqual(["app.ts", "notes.md"]);
+      expect(
+        results.diagnostics?.map(({ pattern, index }) => [pattern, index])
+      ).toEqual([
+        ["a(*", 1],
+        ["!bad\\", 2],
+      ]);
+      expect(results.diagnostics?.[0]?.error).toBeInstanceOf(
+        PatternSyntaxError
+      );
+      // The diagnostics don't show up when the results are serialized
+      expect(JSON.stringify(results)).toBe('["app.ts","notes.md"]');
+    });
+
+    test("should report patterns that aren't strings in path mode", () => {
+      const pattern = 42 as unknown as string;
+      const results = matcher(["src/a.js"], [pattern, "src/*.js"], {
+        path: true,
+        strict: false,
+      });
+
+      expect(results).toEqual(["src/a.js"]);
+      expect(results.diagnostics).toEqual([
+        expect.objectContaining({
+          index: 0,
+          error: expect.any(PatternSyntaxError),
+        }),
+      ]);
+      expect(() => matcher(["a"], pattern, { path: true })).toThrow(
+        PatternSyntaxError
+      );
+      expect(() => makeRe(pattern, { path: true })).toThrow(PatternSyntaxError);
+    });
+
+    test("should match nothing when every pattern is invalid", () => {
+      expect(matcher(["a"], ["a("], { strict: false })).toEqual([]);
+      expect(isMatch("a", "a(", { strict: false })).toBe(false);
+    });
+
+    test("should report diagnostics from matchAdvanced and compiled matchers", () => {
+      const results = matchAdvanced(["x.ts"], ["[", "*.ts"], { strict: false });
+      expect(results).toHaveLength(1);
+      expect(results[0]?.patternIndex).toBe(1);
+      expect(results.diagnostics).toHaveLength(1);
+
+      const compiled = createMatcher(["a|b", "a*"], { strict: false });
+      expect(compiled.patterns).toEqual(["a*"]);
+      expect(compiled.diagnostics[0]?.index).toBe(0);
+    });
+
+    test("should keep the original pattern indices in bulk hits", () => {
+      const bulk = createBulkMatcher(["x(", "a*", "*b"], { strict: false });
+
+      expect(bulk.hits("ab")).toEqual([1, 2]);
+      expect(bulk.diagnostics.map((diagnostic) => diagnostic.index)).toEqual([
+        0,
+      ]);
+    });
+
+    test("should still throw for invalid options", () => {
+      expect(() =>
+        matcher(["a"], "a", {
+          strict: false,
+          fuzzyMatch: true,
+          maxDistance: -1,
+        })
+      ).toThrow(MatcherOptionsError);
+    });
+
+    test("should not attach diagnostics in strict mode", () => {
+      expect(matcher(["a"], "a").diagnostics).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { explain } from "../src/explain";
+
+describe("explain", () => {
+  test("should explain which negation excluded the input", () => {
+    const explanation = explain("vendor/a.js", ["*.js", "!vendor/*"]);
+
+    expect(explanation).toMatchObject({
+      matched: false,
+      pattern: "!vendor/*",
+      patternIndex: 1,
+      reason: "excluded",
+      message: 'Excluded by "!vendor/*" (pattern 1)',
+    });
+    expect(explanation.patterns).toEqual([
+      {
+        pattern: "*.js",
+        index: 0,
+        normalized: "*.js",
+        negated: false,
+        source: "^.*\\.js$",
+        matched: true,
+        effect: "include",
+        decided: false,
+        affectedBy: [],
+      },
+      {
+        pattern: "!vendor/*",
+        index: 1,
+        normalized: "!vendor/*",
+        negated: true,
+        source: "^vendor\\/.*$",
+        matched: true,
+        effect: "exclude",
+        decided: true,
+        affectedBy: [],
+      },
+    ]);
+  });
+
+  test("should explain inclusions and misses", () => {
+    expect(explain("App.ts", ["*.js", "*.TS"])).toMatchObject({
+      matched: true,
+      normalizedInput: "app.ts",
+      pattern: "*.TS",
+      reason: "included",
+    });
+    expect(explain("a.md", ["*.js", "*.ts"]).reason).toBe("no-positive-match");
+    expect(
+      explain("a.js", ["*.js", "src/*"], { allPatterns: true }).reason
+    ).toBe("not-all-matched");
+    expect(explain("a.js", ["!*.ts"]).reason).toBe("no-exclusion");
+    expect(explain("a.js", [])).toMatchObject({
+      matched: false,
+      reason: "no-patterns",
+    });
+  });
+
+  test("should explain ordered decisions", () => {
+    const patterns = ["*.js", "!vendor/*", "vendor/keep.js"];
+
+    expect(
+      explain("vendor/keep.js", patterns, { ordered: true })
+    ).toMatchObject({ matched: true, patternIndex: 2, reason: "included" });
+    expect(explain("a.md", patterns, { ordered: true })).toMatchObject({
+      matched: false,
+      reason: "default",
+    });
+  });
+
+  test("should report the options that changed a pattern's outcome", () => {
+    const affectedBy = (
+      input: string,
+      pattern: string,
+      options: Parameters<typeof explain>[2]
+    ) => explain(input, pattern, options).patterns[0]?.affectedBy;
+
+    expect(affectedBy("hello", "ell", { partialMatch: true })).toEqual([
+      "partialMatch",
+    ]);
+    expect(affectedBy("-foo-", "*foo*", { wordBoundary: true })).toEqual([
+      "wordBoundary",
+    ]);
+    expect(affectedBy("café", "cafe", { accentInsensitive: true })).toEqual([
+      "accentInsensitive",
+    ]);
+    expect(
+      affectedBy("hello", "helo", { fuzzyMatch: true, fuzzyThreshold: 0.8 })
+    ).toEqual(["fuzzyMatch"]);
+    expect(
+      affectedBy("cafe", "cafe", {
+        accentInsensitive: true,
+        partialMatch: true,
+      })
+    ).toEqual([]);
+  });
+
+  test("should leave out the regex source for fuzzy patterns", () => {
+    const [pattern] = explain("hello", "helo", { fuzzyMatch: true }).patterns;
+
+    expect(pattern?.source).toBeUndefined();
+    expect(pattern?.matched).toBe(true);
+  });
+
+  test("should keep pattern indices when invalid patterns are left out", () => {
+    const explanation = explain("b", ["a(", "b"], { strict: false });
+
+    expect(explanation.patternIndex).toBe(1);
+    expect(explanation.patterns).toEqual([
+      expect.objectContaining({ pattern: "b", index: 1, decided: true }),
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { foldCase, removeDiacritics } from "../src/folding";
+
+describe("folding", () => {
+  describe("foldCase", () => {
+    test("should apply simple case folding", () => {
+      expect(foldCase("ΣΊΣΥΦΟΣ")).toBe(foldCase("σίσυφος"));
+      expect(foldCase("ſ")).toBe("s");
+      expect(foldCase("µ")).toBe(foldCase("Μ"));
+      expect(foldCase("ß")).toBe("ß");
+    });
+
+    test("should expand characters with full case folding", () => {
+      const full = { caseFolding: "full" } as const;
+
+      expect(foldCase("ẞ", full)).toBe("ss");
+      expect(foldCase("ﬃ", full)).toBe("ffi");
+      expect(foldCase("ᾼ", full)).toBe("αι");
+      expect(foldCase("ᾨ", full)).toBe(foldCase("ὨΙ", full));
+      expect(foldCase("ǰ", full)).toBe("j\u030c");
+    });
+
+    test("should use the case rules of a locale", () => {
+      expect(foldCase("İI", { locale: "tr" })).toBe("iı");
+      expect(foldCase("İI")).toBe("i\u0307i");
+    });
+  });
+
+  describe("removeDiacritics", () => {
+    test("should strip combining marks and fold stroked letters", () => {
+      expect(removeDiacritics("Đặng Łódź")).toBe("Dang Lodz");
+      expect(removeDiacritics("ħ ŧ ı ø")).toBe("h t i o");
+      expect(removeDiacritics("a\u1dc4\u20d7")).toBe("a");
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { expandBraces, globToRegExpSource } from "../src/glob";
+import { matcher, isMatch } from "../src/matcher";
+import { validatePattern } from "../src/utils";
+import { PatternSyntaxError } from "../src/errors";
+
+const glob = { syntax: "glob" } as const;
+
+function globRegex(pattern: string): RegExp {
+  return new RegExp(`^${globToRegExpSource(pattern)}$`);
+}
+
+describe("glob", () => {
+  describe("expandBraces", () => {
+    test("should expand comma lists", () => {
+      expect(expandBraces("*.{js,ts}")).toEqual(["*.js", "*.ts"]);
+      expect(expandBraces("{a,b}{1,2}")).toEqual(["a1", "a2", "b1", "b2"]);
+    });
+
+    test("should expand nested braces", () => {
+      expect(expandBraces("a{b,c{d,e}}")).toEqual(["ab", "acd", "ace"]);
+    });
+
+    test("should expand numeric and alphabetic sequences", () => {
+      expect(expandBraces("file{1..3}")).toEqual(["file1", "file2", "file3"]);
+      expect(expandBraces("{3..1}")).toEqual(["3", "2", "1"]);
+      expect(expandBraces("{01..03}")).toEqual(["01", "02", "03"]);
+      expect(expandBraces("{0..6..3}")).toEqual(["0", "3", "6"]);
+      expect(expandBraces("{a..c}")).toEqual(["a", "b", "c"]);
+    });
+
+    test("should leave literal and escaped braces alone", () => {
+      expect(expandBraces("{a}")).toEqual(["{a}"]);
+      expect(expandBraces("\\{a,b}")).toEqual(["\\{a,b}"]);
+      expect(expandBraces("{a,b")).toEqual(["{a,b"]);
+    });
+
+    test("should limit the size of sequences and expansions", () => {
+      expect(() => expandBraces("{1..100000}")).toThrow(PatternSyntaxError);
+      expect(() => expandBraces("x{a..z}{1..9999}")).toThrow(
+        "Brace expansion exceeds 10000 patterns"
+      );
+      expect(expandBraces("{1..10000}")).toHaveLength(10000);
+    });
+  });
+
+  describe("globToRegExpSource", () => {
+    test("should keep * and ? within a segment", () => {
+      expect(globRegex("*.js").test("a.js")).toBe(true);
+      expect(globRegex("*.js").test("src/a.js")).toBe(false);
+      expect(globRegex("a?c").test("abc")).toBe(true);
+      expect(globRegex("a?c").test("a/c")).toBe(false);
+    });
+
+    test("should match ** across separators", () => {
+      const regex = globRegex("src/**/*.js");
+      expect(regex.test("src/a.js")).toBe(true);
+      expect(regex.test("src/lib/deep/a.js")).toBe(true);
+      expect(regex.test("test/a.js")).toBe(false);
+      expect(globRegex("**").test("a/b/c")).toBe(true);
+      expect(globRegex("a**b").test("a/b")).toBe(false);
+    });
+
+    test("should support character classes", () => {
+      expect(globRegex("file[0-9].txt").test("file7.txt")).toBe(true);
+      expect(globRegex("file[0-9].txt").test("filex.txt")).toBe(false);
+      expect(globRegex("[!abc]x").test("dx")).toBe(true);
+      expect(globRegex("[!abc]x").test("ax")).toBe(false);
+      expect(globRegex("[^abc]x").test("bx")).toBe(false);
+      expect(globRegex("[!a]").test("/")).toBe(false);
+    });
+
+    test("should support extglobs", () => {
+      expect(globRegex("@(foo|bar).js").test("bar.js")).toBe(true);
+      expect(globRegex("@(foo|bar).js").test("baz.js")).toBe(false);
+      expect(globRegex("!(foo).js").test("bar.js")).toBe(true);
+      expect(globRegex("!(foo).js").test("foo.js")).toBe(false);
+      expect(globRegex("+(ab)").test("ababab")).toBe(true);
+      expect(globRegex("+(ab)").test("")).toBe(false);
+      expect(globRegex("x*(ab)").test("x")).toBe(true);
+      expect(globRegex("x?(ab)").test("xabab")).toBe(false);
+    });
+  });
+
+  describe("glob syntax option", () => {
+    const files = ["src/a.js", "src/lib/b.ts", "test/c.js", "readme.md"];
+
+    test("should filter paths with glob patterns", () => {
+      expect(matcher(files, "**/*.js", glob)).toEqual([
+        "src/a.js",
+        "test/c.js",
+      ]);
+      expect(matcher(files, "src/**/*.{js,ts}", glob)).toEqual([
+        "src/a.js",
+        "src/lib/b.ts",
+      ]);
+      expect(matcher(files, ["**", "!test/**"], glob)).toEqual([
+        "src/a.js",
+        "src/lib/b.ts",
+        "readme.md",
+      ]);
+    });
+
+    test("should treat a leading !( as an extglob rather than negation", () => {
+      expect(isMatch("bar.js", "!(foo).js", glob)).toBe(true);
+      expect(isMatch("foo.js", "!(foo).js", glob)).toBe(false);
+    });
+
+    test("should keep wildcard syntax as the default", () => {
+      expect(matcher(files, "*.js")).toEqual(["src/a.js", "test/c.js"]);
+      expect(() => matcher(files, "*.{js,ts}")).toThrow("Invalid pattern");
+    });
+
+    test("should validate extglob groups", () => {
+      expect(validatePattern("[a-z]*.{js,ts}", glob)).toEqual({ valid: true });
+      expect(validatePattern("@(a|b", glob).valid).toBe(false);
+    });
+
+    test("should reject descending class ranges", () => {
+      expect(validatePattern("a[z-a]", glob)).toMatchObject({
+        valid: false,
+        offset: 2,
+      });
+      expect(validatePattern("[!]-a][a-c-b]", glob)).toEqual({ valid: true });
+      expect(() => isMatch("a", "[z-a]", glob)).toThrow(PatternSyntaxError);
+
+      const results = matcher(["a", "b"], ["[z-a]", "a"], {
+        ...glob,
+        strict: false,
+      });
+      expect(results).toEqual(["a"]);
+      expect(results.diagnostics?.[0]?.index).toBe(0);
+    });
+
+    test("should reject sequences that expand too far", () => {
+      expect(validatePattern("file{1..100000}", glob)).toMatchObject({
+        valid: false,
+        offset: 4,
+      });
+      expect(() => matcher(["file1"], "file{1..100000}", glob)).toThrow(
+        PatternSyntaxError
+      );
+      expect(isMatch("file9999", "file{1..10000}", glob)).toBe(true);
+    });
+  });
+});
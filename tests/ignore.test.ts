@@ -0,0 +1,133 @@
+import { createIgnore, parseIgnore } from "../src/ignore";
+
+describe("ignore", () => {
+  describe("parseIgnore", () => {
+    test("should skip blank lines and comments", () => {
+      const rules = parseIgnore("# build output\n\n/dist\r\n  \n*.log\n");
+
+      expect(rules.map((rule) => [rule.line, rule.pattern])).toEqual([
+        [3, "/dist"],
+        [5, "*.log"],
+      ]);
+    });
+
+    test("should read negation, directory and anchoring markers", () => {
+      const [dist, logs, keep, docs] = parseIgnore(
+        "/dist\nlogs/\n!keep.log\ndocs/api/*.md"
+      );
+
+      expect(dist).toMatchObject({ glob: "dist", anchored: true });
+      expect(logs).toMatchObject({
+        glob: "**/logs",
+        anchored: false,
+        directoryOnly: true,
+      });
+      expect(keep).toMatchObject({ glob: "**/keep.log", negated: true });
+      expect(docs).toMatchObject({ glob: "docs/api/*.md", anchored: true });
+    });
+
+    test("should handle escapes", () => {
+      const [hash, bang, space, trimmed] = parseIgnore(
+        "\\#notes\n\\!important\nname\\ \nother   "
+      );
+
+      expect(hash).toMatchObject({ glob: "**/\\#notes", negated: false });
+      expect(bang).toMatchObject({ glob: "**/\\!important", negated: false });
+      expect(space?.glob).toBe("**/name\\ ");
+      expect(trimmed?.glob).toBe("**/other");
+    });
+
+    test("should treat braces and parentheses literally", () => {
+      expect(parseIgnore("{a,b}.txt")[0]?.glob).toBe("**/\\{a,b\\}.txt");
+      expect(parseIgnore("[(]x")[0]?.glob).toBe("**/[(]x");
+    });
+  });
+
+  describe("createIgnore", () => {
+    test("should ignore matching paths at any depth", () => {
+      const ig = createIgnore("*.log\nnode_modules/\n/build");
+
+      expect(ig.ignores("debug.log")).toBe(true);
+      expect(ig.ignores("logs/app/debug.log")).toBe(true);
+      expect(ig.ignores("node_modules/react/index.js")).toBe(true);
+      expect(ig.ignores("packages/a/node_modules/x.js")).toBe(true);
+      expect(ig.ignores("build/out.js")).toBe(true);
+      expect(ig.ignores("src/build/out.js")).toBe(false);
+      expect(ig.ignores("src/index.ts")).toBe(false);
+    });
+
+    test("should only match directories with a trailing slash", () => {
+      const ig = createIgnore("cache/");
+
+      expect(ig.ignores("cache")).toBe(false);
+      expect(ig.ignores("cache/")).toBe(true);
+      expect(ig.ignores("cache/data.bin")).toBe(true);
+    });
+
+    test("should let the last matching rule decide", () => {
+      const ig = createIgnore(["*.log", "!important.log", "old/important.log"]);
+
+      expect(ig.ignores("debug.log")).toBe(true);
+      expect(ig.ignores("important.log")).toBe(false);
+      expect(ig.ignores("old/important.log")).toBe(true);
+    });
+
+    test("should not re-include files inside an ignored directory", () => {
+      const ig = createIgnore("vendor/\n!vendor/keep.js\nlib/*\n!lib/keep.js");
+
+      expect(ig.ignores("vendor/keep.js")).toBe(true);
+      expect(ig.ignores("lib/drop.js")).toBe(true);
+      expect(ig.ignores("lib/keep.js")).toBe(false);
+    });
+
+    test("should support ** in anchored rules", () => {
+      const ig = createIgnore("docs/**/*.draft.md\ntmp/**");
+
+      expect(ig.ignores("docs/a.draft.md")).toBe(true);
+      expect(ig.ignores("docs/x/y/a.draft.md")).toBe(true);
+      expect(ig.ignores("tmp/a/b")).toBe(true);
+      expect(ig.ignores("tmp")).toBe(false);
+    });
+
+    test("should be case-sensitive by default", () => {
+      expect(createIgnore("*.LOG").ignores("a.log")).toBe(false);
+      expect(
+        createIgnore("*.LOG", { caseSensitive: false }).ignores("a.log")
+      ).toBe(true);
+    });
+
+    test("should normalize paths", () => {
+      const ig = createIgnore("/dist");
+
+      expect(ig.ignores("./dist/a.js")).toBe(true);
+      expect(ig.ignores("dist\\a.js")).toBe(true);
+    });
+
+    test("should stack nested ignore files", () => {
+      const ig = createIgnore("*.tmp\n!*.keep.tmp");
+      ig.add("/generated\n*.keep.tmp", "packages/app");
+
+      expect(ig.ignores("a.tmp")).toBe(true);
+      expect(ig.ignores("a.keep.tmp")).toBe(false);
+      expect(ig.ignores("packages/app/a.keep.tmp")).toBe(true);
+      expect(ig.ignores("packages/app/generated/x.ts")).toBe(true);
+      expect(ig.ignores("packages/lib/generated/x.ts")).toBe(false);
+    });
+
+    test("should give deeper ignore files precedence", () => {
+      const ig = createIgnore().add("!*.env", "app").add("*.env");
+
+      expect(ig.ignores("app/.env")).toBe(false);
+      expect(ig.ignores(".env")).toBe(true);
+      expect(ig.rules.map((rule) => rule.base)).toEqual(["", "app"]);
+    });
+
+    test("should filter out ignored paths", () => {
+      const ig = createIgnore("*.log\ndist/");
+
+      expect(
+        ig.filter(["src/a.ts", "debug.log", "dist/a.js", "readme.md"])
+      ).toEqual(["src/a.ts", "readme.md"]);
+    });
+  });
+});
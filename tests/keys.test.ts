@@ -0,0 +1,146 @@
+import { getPath, getItemValues } from "../src/keys";
+import { matcher, matchAdvanced, fuzzyMatch } from "../src/matcher";
+import { search } from "../src/search";
+import type { MatcherKey } from "../src/types";
+
+const books = [
+  { title: "Dune", author: { name: "Frank Herbert" }, tags: ["scifi"] },
+  { title: "Emma", author: { name: "Jane Austen" }, tags: ["classic"] },
+  { title: "Jane Eyre", author: { name: "Charlotte Bronte" }, tags: [] },
+];
+
+describe("keys", () => {
+  describe("getPath", () => {
+    test("should read dotted property paths", () => {
+      expect(getPath(books[0], "author.name")).toBe("Frank Herbert");
+      expect(getPath(books[0], "title")).toBe("Dune");
+      expect(getPath(books[0], "missing.name")).toBeUndefined();
+      expect(getPath(null, "title")).toBeUndefined();
+    });
+  });
+
+  describe("getItemValues", () => {
+    test("should use strings as they are", () => {
+      expect(getItemValues("foo")).toEqual([{ value: "foo", weight: 1 }]);
+      expect(getItemValues({ name: "foo" })).toEqual([]);
+    });
+
+    test("should read keys with scaled weights", () => {
+      expect(
+        getItemValues(books[0], {
+          keys: [{ name: "title", weight: 2 }, "author.name", "tags"],
+        })
+      ).toEqual([
+        { key: "title", value: "Dune", weight: 1 },
+        { key: "author.name", value: "Frank Herbert", weight: 0.5 },
+        { key: "tags", value: "scifi", weight: 0.5 },
+      ]);
+    });
+
+    test("should prefer the accessor over keys", () => {
+      expect(
+        getItemValues(books[1], {
+          keys: ["title"],
+          accessor: (book) => [book.title, book.author.name],
+        })
+      ).toEqual([
+        { value: "Emma", weight: 1 },
+        { value: "Jane Austen", weight: 1 },
+      ]);
+    });
+
+    test("should reject negative weights", () => {
+      expect(() =>
+        getItemValues(books[0], { keys: [{ name: "title", weight: -1 }] })
+      ).toThrow("Key weight");
+    });
+  });
+
+  describe("matcher with items", () => {
+    test("should return the original objects", () => {
+      expect(
+        matcher(books, "jane*", { keys: ["title", "author.name"] })
+      ).toEqual([books[1], books[2]]);
+      expect(
+        matcher(books, ["*", "!dune"], { accessor: (book) => book.title })
+      ).toEqual([books[1], books[2]]);
+    });
+
+    test("should apply negations per value", () => {
+      expect(
+        matcher(books, ["*e*", "!*austen"], { keys: ["author.name"] })
+      ).toEqual([books[0], books[2]]);
+    });
+
+    test("should record the matching key in metadata", () => {
+      const results = matchAdvanced(books, "jane*", {
+        keys: [{ name: "title", weight: 2 }, "author.name"],
+      });
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        item: books[1],
+        input: "Jane Austen",
+        score: 0.5,
+        metadata: { key: "author.name", weight: 0.5 },
+      });
+      expect(results[1]).toMatchObject({
+        item: books[2],
+        input: "Jane Eyre",
+        score: 1,
+        metadata: { key: "title", weight: 1 },
+      });
+      expect(results[1]?.metadata?.processingTime).toBeGreaterThanOrEqual(0);
+    });
+
+    test("should scale weights so that the heaviest key has weight 1", () => {
+      const weights = (keys: MatcherKey[]): unknown[] =>
+        matchAdvanced(books, "*", { keys }).map(
+          (result) => result.metadata?.weight
+        );
+
+      expect(
+        weights([{ name: "title", weight: 4 }, { name: "author.name" }])
+      ).toEqual([1, 1, 1]);
+      expect(
+        weights([
+          { name: "title", weight: 0.5 },
+          { name: "author.name", weight: 0.25 },
+        ])
+      ).toEqual([1, 1, 1]);
+
+      const [result] = matchAdvanced(books, "frank*", {
+        keys: [
+          { name: "title", weight: 4 },
+          { name: "author.name", weight: 2 },
+        ],
+      });
+      expect(result).toMatchObject({
+        score: 0.5,
+        metadata: { key: "author.name", weight: 0.5 },
+      });
+    });
+
+    test("should fuzzy match items", () => {
+      const results = fuzzyMatch(books, "emam", 0.5, { keys: ["title"] });
+      expect(results.map((result) => result.item)).toEqual([books[1]]);
+    });
+  });
+
+  describe("search with weights", () => {
+    test("should weight key scores", () => {
+      const results = search("j", books, {
+        keys: [
+          { name: "title", weight: 1 },
+          { name: "author.name", weight: 0.5 },
+        ],
+      });
+
+      expect(results.map((result) => result.item)).toEqual([
+        books[2],
+        books[1],
+      ]);
+      expect(results[1]?.key).toBe("author.name");
+    });
+  });
+});
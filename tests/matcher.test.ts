@@ -1,4 +1,13 @@
-import { matcher, isMatch, matchAdvanced, fuzzyMatch } from "../src/matcher";
+import {
+  matcher,
+  isMatch,
+  matchAdvanced,
+  fuzzyMatch,
+  createMatcher,
+  createBulkMatcher,
+  capture,
+  replace,
+} from "../src/matcher";
 
 describe("matcher", () => {
   describe("basic functionality", () => {
@@ -44,6 +53,14 @@ describe("matcher", () => {
       );
     });
 
+    test("should handle regex characters as separators", () => {
+      expect(
+        matcher(["api.v1.users", "web.v1.posts"], "api.*.users", {
+          separator: ".",
+        })
+      ).toEqual(["api.v1.users"]);
+    });
+
     test("should handle allPatterns option", () => {
       expect(matcher(["foo", "bar"], ["*"], { allPatterns: true })).toEqual([
         "foo",
@@ -113,4 +130,492 @@ describe("fuzzyMatch", () => {
     expect(results).toHaveLength(1);
     expect(results[0]?.input).toBe("hello");
   });
+
+  test("should treat integer thresholds above 1 as edit distances", () => {
+    const inputs = ["kitten", "sitten", "sitting"];
+    expect(fuzzyMatch(inputs, "kitten", 2).map((r) => r.input)).toEqual([
+      "kitten",
+      "sitten",
+    ]);
+    expect(fuzzyMatch(inputs, "kitten", 2)[1]?.metadata?.distance).toBe(1);
+  });
+
+  test("should prefer maxDistance over minSimilarity and fuzzyThreshold", () => {
+    const inputs = ["color", "colour", "collar"];
+    expect(
+      matcher(inputs, "color", {
+        fuzzyMatch: true,
+        fuzzyThreshold: 0.1,
+        minSimilarity: 0.1,
+        maxDistance: 1,
+      })
+    ).toEqual(["color", "colour"]);
+    expect(
+      matcher(inputs, "color", {
+        fuzzyMatch: true,
+        fuzzyThreshold: 2,
+        minSimilarity: 0.8,
+      })
+    ).toEqual(["color", "colour"]);
+  });
+
+  test("should score exact matches 1", () => {
+    const options = { fuzzyMatch: true } as const;
+    expect(
+      matcher(["hello"], "hello", { ...options, minSimilarity: 1 })
+    ).toEqual(["hello"]);
+    expect(
+      matcher(["hello"], "hello", { ...options, minSimilarity: 0.95 })
+    ).toEqual(["hello"]);
+
+    const [result] = matchAdvanced(["hello", "hellos"], "hello", {
+      ...options,
+      maxDistance: 0,
+    });
+    expect(result).toMatchObject({
+      input: "hello",
+      score: 1,
+      metadata: { distance: 0 },
+    });
+  });
+});
+
+describe("capture", () => {
+  test("should return what each wildcard matched", () => {
+    expect(capture("src/app.test.ts", "*.test.*")).toEqual(["src/app", "ts"]);
+    expect(capture("File1.TXT", "file?.*")).toEqual(["1", "TXT"]);
+    expect(capture("a/b/c.js", "**/*.js", { syntax: "glob" })).toEqual([
+      "a/b/",
+      "c",
+    ]);
+  });
+
+  test("should capture in path and basename mode", () => {
+    expect(capture("src\\lib\\a.js", "src/*/*.js", { path: true })).toEqual([
+      "lib",
+      "a",
+    ]);
+    expect(
+      capture("src/lib/a.min.js", "*.min.js", { path: true, matchBase: true })
+    ).toEqual(["a"]);
+  });
+
+  test("should capture segments in segment mode", () => {
+    expect(capture("a/b/c", "a/*/c", { separator: "/" })).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  test("should return null without a match and nothing for negations", () => {
+    expect(capture("app.js", "*.ts")).toBeNull();
+    expect(capture("app.js", "!*.ts")).toEqual([]);
+  });
+
+  test("should add captures to match results", () => {
+    expect(matchAdvanced(["a.test.ts"], ["*.test.ts"])[0]?.captures).toEqual([
+      "a",
+    ]);
+  });
+});
+
+describe("replace", () => {
+  test("should substitute captures", () => {
+    expect(replace("src/app.test.ts", "*.test.ts", "$1.spec.ts")).toBe(
+      "src/app.spec.ts"
+    );
+    expect(replace("IMG_0042.jpeg", "img_*.*", "photo-$1.$2")).toBe(
+      "photo-0042.jpeg"
+    );
+  });
+
+  test("should keep escaped and missing references", () => {
+    expect(replace("price.txt", "*.txt", "$$$1-$3")).toBe("$price-$3");
+  });
+
+  test("should leave inputs that do not match unchanged", () => {
+    expect(replace("app.js", "*.test.ts", "$1.spec.ts")).toBe("app.js");
+  });
+});
+
+describe("ordered mode", () => {
+  const files = [
+    "app.js",
+    "vendor/lib.js",
+    "vendor/keep.js",
+    "vendor/keep.min.js",
+  ];
+
+  test("should let a later pattern re-include an excluded input", () => {
+    const patterns = ["*.js", "!vendor/*", "vendor/keep*"];
+
+    expect(matcher(files, patterns)).toEqual(["app.js"]);
+    expect(matcher(files, patterns, { ordered: true })).toEqual([
+      "app.js",
+      "vendor/keep.js",
+      "vendor/keep.min.js",
+    ]);
+  });
+
+  test("should follow re-inclusion chains to the last matching pattern", () => {
+    const patterns = ["*.js", "!vendor/*", "vendor/keep*", "!*.min.js"];
+
+    expect(matcher(files, patterns, { ordered: true })).toEqual([
+      "app.js",
+      "vendor/keep.js",
+    ]);
+    expect(
+      matcher(files, [...patterns, "vendor/keep.min.js"], { ordered: true })
+    ).toEqual(["app.js", "vendor/keep.js", "vendor/keep.min.js"]);
+  });
+
+  test("should report the deciding pattern and its index", () => {
+    const check = createMatcher(["*.js", "!vendor/*", "vendor/keep*"], {
+      ordered: true,
+    });
+
+    expect(check.explain("vendor/keep.js")).toMatchObject({
+      matched: true,
+      pattern: "vendor/keep*",
+      patternIndex: 2,
+    });
+    expect(check.explain("vendor/lib.js")).toMatchObject({
+      matched: false,
+      pattern: "!vendor/*",
+      patternIndex: 1,
+    });
+    expect(check.explain("readme.md")).toMatchObject({ matched: false });
+    expect(check.explain("readme.md").pattern).toBeUndefined();
+  });
+
+  test("should match everything else when the list starts with a negation", () => {
+    expect(
+      matcher(files, ["!vendor/*", "vendor/keep.js"], { ordered: true })
+    ).toEqual(["app.js", "vendor/keep.js"]);
+  });
+});
+
+describe("createMatcher", () => {
+  test("should match like the one-shot functions", () => {
+    const compiled = createMatcher(["*.js", "*.ts", "!*.min.*"]);
+    const inputs = ["app.js", "app.min.js", "types.ts", "readme.md"];
+
+    expect(compiled.filter(inputs)).toEqual(
+      matcher(inputs, ["*.js", "*.ts", "!*.min.*"])
+    );
+    expect(compiled.test("app.js")).toBe(true);
+    expect(compiled.test("app.min.js")).toBe(false);
+  });
+
+  test("should keep its options", () => {
+    const compiled = createMatcher("foo", { caseSensitive: true });
+    expect(compiled.test("foo")).toBe(true);
+    expect(compiled.test("FOO")).toBe(false);
+    expect(compiled.patterns).toEqual(["foo"]);
+  });
+
+  test("should never match without patterns", () => {
+    expect(createMatcher([]).test("foo")).toBe(false);
+    expect(createMatcher([]).filter(["foo"])).toEqual([]);
+  });
+
+  test("should explain every pattern result", () => {
+    const explanation = createMatcher(["*.js", "!*.min.*"]).explain(
+      "app.min.js"
+    );
+
+    expect(explanation.matched).toBe(false);
+    expect(explanation.metadata?.results).toEqual([
+      expect.objectContaining({ pattern: "*.js", matched: true }),
+      expect.objectContaining({ pattern: "!*.min.*", matched: false }),
+    ]);
+  });
+
+  test("should validate patterns up front", () => {
+    expect(() => createMatcher("foo[")).toThrow("Invalid pattern");
+  });
+});
+
+describe("path mode", () => {
+  const files = [
+    "a.js",
+    "src/lib/a.js",
+    "src/b.js",
+    ".eslintrc.js",
+    "src/.hidden.js",
+  ];
+
+  test("should keep * within a path segment", () => {
+    expect(matcher(files, "*.js")).toContain("src/lib/a.js");
+    expect(matcher(files, "*.js", { path: true })).toEqual(["a.js"]);
+    expect(matcher(files, "src/*.js", { path: true })).toEqual(["src/b.js"]);
+    expect(matcher(files, "src/**", { path: true })).toEqual([
+      "src/lib/a.js",
+      "src/b.js",
+    ]);
+  });
+
+  test("should hide dotfiles unless dot is set", () => {
+    expect(matcher(files, "*", { path: true })).toEqual(["a.js"]);
+    expect(matcher(files, ".*", { path: true })).toEqual([".eslintrc.js"]);
+    expect(matcher(files, "*", { path: true, dot: true })).toEqual([
+      "a.js",
+      ".eslintrc.js",
+    ]);
+    expect(matcher(files, "src/*", { path: true, dot: true })).toEqual([
+      "src/b.js",
+      "src/.hidden.js",
+    ]);
+    expect(matcher(files, "**/*.js", { path: true, syntax: "glob" })).toEqual([
+      "a.js",
+      "src/lib/a.js",
+      "src/b.js",
+    ]);
+  });
+
+  test("should normalize Windows separators", () => {
+    expect(isMatch("src\\lib\\a.js", "src/*/a.js", { path: true })).toBe(true);
+    expect(isMatch("src/lib/a.js", "src\\*\\a.js", { path: true })).toBe(true);
+    expect(matcher(["src\\b.js"], "src/*", { path: true })).toEqual([
+      "src\\b.js",
+    ]);
+  });
+
+  test("should match slash-free patterns against the basename", () => {
+    const options = { path: true, matchBase: true };
+    expect(matcher(files, "a.js", options)).toEqual(["a.js", "src/lib/a.js"]);
+    expect(matcher(files, "src/*.js", options)).toEqual(["src/b.js"]);
+    expect(matcher(files, ["*.js", "!a.js"], options)).toEqual(["src/b.js"]);
+  });
+});
+
+describe("escapes", () => {
+  test("should match escaped wildcards literally", () => {
+    const inputs = ["what?", "whats", "a*b", "axb"];
+
+    expect(matcher(inputs, "what\\?")).toEqual(["what?"]);
+    expect(matcher(inputs, "a\\*b")).toEqual(["a*b"]);
+    expect(matcher(inputs, "*\\*")).toEqual([]);
+    expect(isMatch("a\\b", "a\\\\b")).toBe(true);
+  });
+
+  test("should match a leading ! when it is escaped", () => {
+    expect(matcher(["!important", "important"], "\\!imp*")).toEqual([
+      "!important",
+    ]);
+    expect(isMatch("!x", "!\\!x")).toBe(false);
+  });
+
+  test("should match escaped regex characters", () => {
+    expect(isMatch("f(x)", "f\\(*\\)")).toBe(true);
+    expect(() => isMatch("f(x)", "f(*)")).toThrow(
+      'Unsupported characters found: "(" at position 1'
+    );
+  });
+
+  test("should resolve escapes in bulk, partial and segment matching", () => {
+    const bulk = createBulkMatcher(["a\\*b*", "\\?z"]);
+    expect(bulk.hits("a*bc")).toEqual([0]);
+    expect(bulk.hits("?z")).toEqual([1]);
+
+    expect(isMatch("say what? now", "what\\?", { partialMatch: true })).toBe(
+      true
+    );
+    expect(isMatch("a/*/c", "a/\\*/c", { separator: "/" })).toBe(true);
+    expect(isMatch("a/b/c", "a/\\*/c", { separator: "/" })).toBe(false);
+  });
+
+  describe("unicode", () => {
+    test("should match with full case folding", () => {
+      expect(isMatch("STRASSE", "straße")).toBe(false);
+      expect(isMatch("STRASSE", "straße", { caseFolding: "full" })).toBe(true);
+      expect(isMatch("Straße", "STRASS*", { caseFolding: "full" })).toBe(true);
+      expect(
+        createBulkMatcher(["straß*", "*weg"], { caseFolding: "full" }).hits(
+          "STRASSENBAHN"
+        )
+      ).toEqual([0]);
+    });
+
+    test("should match Turkish dotted and dotless i with a locale", () => {
+      const cities = ["İzmir", "Iğdır", "Diyarbakır"];
+
+      expect(matcher(cities, "iz*", { locale: "tr" })).toEqual(["İzmir"]);
+      expect(matcher(cities, "ığ*", { locale: "tr" })).toEqual(["Iğdır"]);
+      expect(matcher(cities, "DIYAR*", { locale: "tr" })).toEqual([]);
+      expect(matcher(cities, "DİYAR*", { locale: "tr" })).toEqual([
+        "Diyarbakır",
+      ]);
+    });
+
+    test("should match accented inputs in any form", () => {
+      const places = ["Việt Nam", "Đà Lạt", "Ἀθῆναι", "Cafe\u0301"];
+
+      expect(matcher(places, "viet*", { accentInsensitive: true })).toEqual([
+        "Việt Nam",
+      ]);
+      expect(matcher(places, "da lat", { accentInsensitive: true })).toEqual([
+        "Đà Lạt",
+      ]);
+      expect(matcher(places, "αθηναι", { accentInsensitive: true })).toEqual([
+        "Ἀθῆναι",
+      ]);
+      expect(matcher(places, "café", { normalization: "NFC" })).toEqual([
+        "Cafe\u0301",
+      ]);
+    });
+
+    test("should match compatibility characters with NFKC", () => {
+      expect(isMatch("ﬁnal report", "final*")).toBe(false);
+      expect(isMatch("ﬁnal report", "final*", { normalization: "NFKC" })).toBe(
+        true
+      );
+      expect(isMatch("Ｒｅｐｏｒｔ", "report", { normalization: "NFKC" })).toBe(
+        true
+      );
+    });
+
+    test("should keep compatibility characters in patterns literal", () => {
+      const options = { normalization: "NFKC" } as const;
+      expect(isMatch("axyzb", "a＊b", options)).toBe(false);
+      expect(isMatch("a*b", "a＊b", options)).toBe(true);
+      expect(isMatch("a＊b", "a＊b", options)).toBe(true);
+      expect(isMatch("axb", "a？b", options)).toBe(false);
+      expect(isMatch("a*b", "a\\＊b", options)).toBe(true);
+      expect(matcher(["x", "！x"], "！x", options)).toEqual(["！x"]);
+      expect(isMatch("ab", "a｛b，c｝", { ...options, syntax: "glob" })).toBe(
+        false
+      );
+    });
+
+    test("should capture from the original input when its length changes", () => {
+      expect(
+        capture("Straßenbahn", "strasse*", { caseFolding: "full" })
+      ).toEqual(["nbahn"]);
+      expect(capture("İzmir-Ankara", "*-*")).toEqual(["İzmir", "Ankara"]);
+      expect(
+        capture("Cafe\u0301 Noir", "cafe *", { accentInsensitive: true })
+      ).toEqual(["Noir"]);
+      expect(
+        replace("Ĳssel.TXT", "*.txt", "$1.md", { normalization: "NFKC" })
+      ).toBe("Ĳssel.md");
+    });
+
+    test("should report original segments when normalization adds separators", () => {
+      const [result] = matchAdvanced(["Docs／Über"], "docs/*", {
+        separator: "/",
+        normalization: "NFKC",
+      });
+
+      expect(result?.segments).toEqual(["Docs", "Über"]);
+      expect(result?.captures).toEqual(["Docs", "Über"]);
+    });
+  });
+
+  describe("literal option", () => {
+    test("should match the whole pattern as text", () => {
+      const inputs = ["*.ts", "app.ts", "!x", "x", "a\\b"];
+
+      expect(matcher(inputs, "*.ts", { literal: true })).toEqual(["*.ts"]);
+      expect(matcher(inputs, "!x", { literal: true })).toEqual(["!x"]);
+      expect(matcher(inputs, "a\\b", { literal: true })).toEqual(["a\\b"]);
+      expect(isMatch("f(x)", "f(x)", { literal: true })).toBe(true);
+    });
+
+    test("should ignore syntax and ** segments", () => {
+      const emitWarning = jest
+        .spyOn(process, "emitWarning")
+        .mockImplementation(() => undefined);
+      try {
+        expect(
+          isMatch("/:id", "/:id", { literal: true, syntax: "route" })
+        ).toBe(true);
+        expect(isMatch("a/b", "**", { literal: true, separator: "/" })).toBe(
+          false
+        );
+        expect(
+          isMatch("{a,b}", "{a,b}", { literal: true, syntax: "glob" })
+        ).toBe(true);
+
+        expect(emitWarning).toHaveBeenCalledTimes(1);
+        expect(emitWarning).toHaveBeenCalledWith(
+          "syntax is ignored with literal, which matches patterns as text",
+          "MatcherOptionsWarning"
+        );
+      } finally {
+        emitWarning.mockRestore();
+      }
+    });
+
+    test("should keep literal and wildcard patterns apart in the cache", () => {
+      expect(isMatch("abc", "a*")).toBe(true);
+      expect(isMatch("abc", "a*", { literal: true })).toBe(false);
+    });
+
+    test("should find the text with partial matching", () => {
+      expect(isMatch("x*y", "*", { literal: true, partialMatch: true })).toBe(
+        true
+      );
+    });
+  });
+});
+
+describe("segment mode", () => {
+  const paths = ["foo", "foo/bar", "foo/bar/baz", "foo/bar/baz/qux"];
+
+  test("should require one input segment per pattern segment", () => {
+    expect(matcher(paths, "foo/*", { separator: "/" })).toEqual(["foo/bar"]);
+    expect(matcher(paths, "foo/*/*", { separator: "/" })).toEqual([
+      "foo/bar/baz",
+    ]);
+  });
+
+  test("should match zero or more segments with **", () => {
+    expect(matcher(paths, "foo/**", { separator: "/" })).toEqual(paths);
+    expect(matcher(paths, "**/baz", { separator: "/" })).toEqual([
+      "foo/bar/baz",
+    ]);
+    expect(capture("a/b/c/d", "a/**/d", { separator: "/" })).toEqual([
+      "a",
+      "b/c",
+      "d",
+    ]);
+    expect(capture("a/d", "a/**/d", { separator: "/" })).toEqual([
+      "a",
+      "",
+      "d",
+    ]);
+  });
+
+  test("should match leading segments in prefix mode", () => {
+    expect(matcher(paths, "foo/*", { separator: "/", prefix: true })).toEqual([
+      "foo/bar",
+      "foo/bar/baz",
+      "foo/bar/baz/qux",
+    ]);
+    expect(
+      matchAdvanced("foo/bar/baz", "foo/*", { separator: "/", prefix: true })[0]
+        ?.segments
+    ).toEqual(["foo", "bar"]);
+  });
+
+  test("should report the original input and pattern", () => {
+    const [result] = matchAdvanced("Src/App/Main.TS", "src/*/MAIN.ts", {
+      separator: "/",
+    });
+
+    expect(result).toMatchObject({
+      input: "Src/App/Main.TS",
+      pattern: "src/*/MAIN.ts",
+      segments: ["Src", "App", "Main.TS"],
+      captures: ["Src", "App", "Main.TS"],
+    });
+  });
+
+  test("should negate segment patterns", () => {
+    expect(
+      matcher(paths, ["foo/**", "!foo/*/baz"], { separator: "/" })
+    ).toEqual(["foo", "foo/bar", "foo/bar/baz/qux"]);
+  });
 });
@@ -0,0 +1,226 @@
+import {
+  matcherOptionsSchema,
+  optionConflicts,
+  validateOptions,
+} from "../src/options";
+import { MatchingEngine } from "../src/engine";
+import { MatcherOptionsError } from "../src/errors";
+import { createMatcher, isMatch, matcher } from "../src/matcher";
+import { matchIterable } from "../src/stream";
+
+describe("options", () => {
+  describe("validateOptions", () => {
+    test("should accept valid options", () => {
+      expect(
+        validateOptions({
+          caseSensitive: true,
+          fuzzyMatch: true,
+          fuzzyThreshold: 2,
+          syntax: "wildcard",
+          maxDepth: 0,
+          separator: undefined,
+        })
+      ).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    test("should reject values of the wrong type or out of range", () => {
+      const { valid, errors } = validateOptions({
+        caseSensitive: "yes",
+        syntax: "regex",
+        fuzzyThreshold: -0.5,
+        minSimilarity: 1.5,
+        maxDistance: 1.5,
+        maxDepth: NaN,
+      });
+
+      expect(valid).toBe(false);
+      expect(errors.map(({ option, message }) => [option, message])).toEqual([
+        ["caseSensitive", 'caseSensitive must be a boolean: "yes"'],
+        [
+          "syntax",
+          'syntax must be one of "wildcard", "glob", "route": "regex"',
+        ],
+        [
+          "fuzzyThreshold",
+          "fuzzyThreshold must be between 0 and 1 or an integer above 1: -0.5",
+        ],
+        ["minSimilarity", "minSimilarity must be between 0 and 1: 1.5"],
+        ["maxDistance", "maxDistance must be a non-negative integer: 1.5"],
+        ["maxDepth", "maxDepth must be a number: NaN"],
+      ]);
+      expect(validateOptions({ locale: "not a locale" }).errors).toEqual([
+        {
+          option: "locale",
+          value: "not a locale",
+          message: 'locale must be a BCP 47 language tag: "not a locale"',
+        },
+      ]);
+      expect(validateOptions({ fuzzyThreshold: 1.5 }).valid).toBe(false);
+    });
+
+    test("should warn about unknown options with a suggestion", () => {
+      const { valid, warnings } = validateOptions({
+        casesensitive: true,
+        fuzyMatch: true,
+        color: "red",
+      });
+
+      expect(valid).toBe(true);
+      expect(warnings.map((warning) => warning.message)).toEqual([
+        'Unknown option "casesensitive"; did you mean "caseSensitive"?',
+        'Unknown option "fuzyMatch"; did you mean "fuzzyMatch"?',
+        'Unknown option "color"',
+      ]);
+    });
+
+    test("should warn about options that have no effect", () => {
+      const warned = (options: object): string[] =>
+        validateOptions(options).warnings.map((warning) => warning.option);
+
+      expect(warned({ fuzzyMatch: true, separator: "." })).toEqual([
+        "separator",
+      ]);
+      expect(warned({ partialMatch: true, wordBoundary: true })).toEqual([
+        "wordBoundary",
+      ]);
+      expect(warned({ prefix: true })).toEqual(["prefix"]);
+      expect(warned({ dot: true })).toEqual(["dot"]);
+      expect(warned({ dot: true, path: true })).toEqual([]);
+      expect(warned({ literal: true, syntax: "glob" })).toEqual(["syntax"]);
+      expect(warned({ caseSensitive: true, locale: "tr" })).toEqual(["locale"]);
+      expect(validateOptions({ prefix: true }).valid).toBe(true);
+    });
+
+    test("should reject options that aren't an object", () => {
+      expect(validateOptions(null)).toMatchObject({
+        valid: false,
+        errors: [{ message: "Options must be an object: null" }],
+      });
+    });
+  });
+
+  describe("matcherOptionsSchema", () => {
+    test("should describe every option the engine defaults", () => {
+      const defaults = new MatchingEngine().getOptions();
+
+      for (const [option, value] of Object.entries(defaults)) {
+        expect(matcherOptionsSchema).toHaveProperty([option, "default"], value);
+      }
+    });
+
+    test("should only name known options in conflicts", () => {
+      for (const conflict of optionConflicts) {
+        for (const option of [...conflict.options, conflict.ignored]) {
+          expect(matcherOptionsSchema).toHaveProperty([option]);
+        }
+      }
+    });
+  });
+
+  describe("engine", () => {
+    test("should throw for invalid options", () => {
+      expect(() => matcher(["a"], "a", { fuzzyThreshold: -1 })).toThrow(
+        MatcherOptionsError
+      );
+      expect(() => isMatch("a", "a", { syntax: "regex" as "glob" })).toThrow(
+        'syntax must be one of "wildcard", "glob", "route"'
+      );
+      expect(() => new MatchingEngine().setOptions({ maxDepth: -1 })).toThrow(
+        "maxDepth must be a non-negative integer"
+      );
+    });
+
+    test("should emit each warning once", () => {
+      const emitWarning = jest
+        .spyOn(process, "emitWarning")
+        .mockImplementation(() => undefined);
+      try {
+        const options = { matchbase: true } as object;
+        matcher(["a"], "a", options);
+        matcher(["b"], "b", options);
+
+        expect(emitWarning).toHaveBeenCalledTimes(1);
+        expect(emitWarning).toHaveBeenCalledWith(
+          'Unknown option "matchbase"; did you mean "matchBase"?',
+          "MatcherOptionsWarning"
+        );
+      } finally {
+        emitWarning.mockRestore();
+      }
+    });
+
+    test("should emit each warning once across engines", () => {
+      const emitWarning = jest
+        .spyOn(process, "emitWarning")
+        .mockImplementation(() => undefined);
+      try {
+        new MatchingEngine({ dot: true });
+        new MatchingEngine({ dot: true }).setOptions({ caseSensitive: true });
+        new MatchingEngine().setOptions({ dot: true });
+        new MatchingEngine({ prefix: true });
+
+        expect(emitWarning.mock.calls).toEqual([
+          [
+            "dot is ignored without path, where wildcards match dots anyway",
+            "MatcherOptionsWarning",
+          ],
+          ["prefix is ignored without a separator", "MatcherOptionsWarning"],
+        ]);
+      } finally {
+        emitWarning.mockRestore();
+      }
+    });
+
+    test("should check conflicts against the options already set", () => {
+      const emitWarning = jest
+        .spyOn(process, "emitWarning")
+        .mockImplementation(() => undefined);
+      try {
+        const engine = new MatchingEngine({ fuzzyMatch: true });
+        engine.setOptions({ partialMatch: true });
+
+        expect(emitWarning).toHaveBeenCalledWith(
+          expect.stringContaining("partialMatch is ignored with fuzzyMatch"),
+          "MatcherOptionsWarning"
+        );
+      } finally {
+        emitWarning.mockRestore();
+      }
+    });
+
+    test("should log warnings in runtimes without process warnings", () => {
+      const { emitWarning } = process;
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      try {
+        (process as { emitWarning?: unknown }).emitWarning = undefined;
+        new MatchingEngine({ browserOnly: true } as object);
+
+        expect(warn).toHaveBeenCalledWith(
+          'MatcherOptionsWarning: Unknown option "browserOnly"'
+        );
+      } finally {
+        process.emitWarning = emitWarning;
+        warn.mockRestore();
+      }
+    });
+
+    test("should reject item options in functions that match strings", () => {
+      const options = { keys: ["name"] } as object;
+
+      expect(() => createMatcher("a*", options)).toThrow(MatcherOptionsError);
+      expect(() => [...matchIterable(["a"], "a*", options)]).toThrow(
+        "keys is only supported by matcher"
+      );
+      expect(() => isMatch("a", "a*", { accessor: String } as object)).toThrow(
+        MatcherOptionsError
+      );
+    });
+
+    test("should keep defaults for options set to undefined", () => {
+      const engine = new MatchingEngine({ strict: undefined, maxDepth: 3 });
+      engine.setOptions({ maxDepth: undefined });
+
+      expect(engine.getOptions()).toMatchObject({ strict: true, maxDepth: 3 });
+    });
+  });
+});
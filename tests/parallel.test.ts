@@ -0,0 +1,57 @@
+import { matchParallel } from "../src/parallel";
+import { matcher } from "../src/matcher";
+import {
+  registerFuzzyAlgorithm,
+  unregisterFuzzyAlgorithm,
+} from "../src/similarity";
+
+describe("matchParallel", () => {
+  test("should match like matcher and keep input order", async () => {
+    const inputs = Array.from({ length: 250 }, (_, i) =>
+      i % 3 === 0
+        ? `src/file-${i}.ts`
+        : i % 3 === 1
+        ? `file-${i}.d.ts`
+        : `${i}.md`
+    );
+    const patterns = ["*.ts", "!*.d.ts", "1*"];
+
+    await expect(
+      matchParallel(inputs, patterns, { workers: 2, chunkSize: 40 })
+    ).resolves.toEqual(matcher(inputs, patterns));
+  }, 30000);
+
+  test("should return nothing for no inputs", async () => {
+    await expect(matchParallel([], "*")).resolves.toEqual([]);
+  });
+
+  test("should reject options that cannot be sent to workers", async () => {
+    await expect(
+      matchParallel(["a"], "*", {
+        accessor: () => "a",
+      } as Parameters<typeof matchParallel>[2])
+    ).rejects.toThrow('Option "accessor" is a function');
+
+    registerFuzzyAlgorithm("first-letter", (a, b) => (a[0] === b[0] ? 1 : 0));
+    try {
+      await expect(
+        matchParallel(["a"], "a", {
+          fuzzyMatch: true,
+          fuzzyAlgorithm: "first-letter",
+        })
+      ).rejects.toThrow("not available to worker threads");
+    } finally {
+      unregisterFuzzyAlgorithm("first-letter");
+    }
+  });
+
+  test("should validate its own options and the patterns", async () => {
+    await expect(matchParallel(["a"], "*", { workers: 0 })).rejects.toThrow(
+      "workers must be a positive integer"
+    );
+    await expect(matchParallel(["a"], "*", { chunkSize: 1.5 })).rejects.toThrow(
+      "chunkSize must be a positive integer"
+    );
+    await expect(matchParallel(["a"], "a(")).rejects.toThrow("Invalid pattern");
+  });
+});
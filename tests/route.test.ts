@@ -0,0 +1,216 @@
+import {
+  compareSpecificity,
+  parseRoute,
+  routeSpecificity,
+  validateRoute,
+} from "../src/route";
+import {
+  matcher,
+  matchAdvanced,
+  matchRoute,
+  rankRoutes,
+  replace,
+} from "../src/matcher";
+
+describe("route", () => {
+  describe("parseRoute", () => {
+    test("should parse every kind of segment", () => {
+      expect(parseRoute("/files/:id(\\d+)/:tab?/*rest")).toEqual([
+        { type: "static", value: "files", optional: false },
+        { type: "param", value: "id", optional: false, constraint: "\\d+" },
+        { type: "param", value: "tab", optional: true },
+        { type: "splat", value: "rest", optional: false },
+      ]);
+      expect(parseRoute("*.json")).toEqual([
+        { type: "static", value: "*.json", optional: false },
+      ]);
+    });
+
+    test("should keep separators inside constraints", () => {
+      expect(parseRoute("/:date(\\d+/\\d+)")[0]?.constraint).toBe("\\d+/\\d+");
+    });
+
+    test("should reject malformed routes", () => {
+      expect(validateRoute("/users/:id")).toBeUndefined();
+      expect(validateRoute("/users/:")?.message).toMatch(
+        /Invalid parameter name/
+      );
+      expect(validateRoute("/users/:id(\\d+")?.message).toMatch(
+        /Unclosed constraint/
+      );
+      expect(validateRoute("/users/:id([)")?.message).toMatch(
+        /Invalid constraint/
+      );
+      expect(validateRoute("/:id/:id")?.message).toMatch(
+        /Duplicate parameter name/
+      );
+      expect(validateRoute("/a+b")?.message).toMatch(/Unsupported character/);
+      expect(() => parseRoute("/*rest-x")).toThrow("Invalid pattern");
+    });
+
+    test("should report where a route is malformed", () => {
+      expect(validateRoute("/users/:")).toMatchObject({
+        offset: 8,
+        expected: "parameter name",
+      });
+      expect(validateRoute("/users/:id(\\d+")).toMatchObject({
+        offset: 14,
+        expected: '")"',
+      });
+      expect(validateRoute("/files/a+b")?.offset).toBe(8);
+      expect(validateRoute("/:id/:id")?.offset).toBe(6);
+    });
+  });
+
+  describe("routeSpecificity", () => {
+    test("should rank static segments above parameters and splats", () => {
+      expect(
+        routeSpecificity(parseRoute("/a/*.json/:id(\\d+)/:b/*/:c?/*rest"))
+      ).toEqual([4, 3, 3, 2, 2, 1, 0]);
+      expect(compareSpecificity([4, 2], [4, 4])).toBeGreaterThan(0);
+      expect(compareSpecificity([4, 2, 1], [4, 2])).toBeGreaterThan(0);
+      expect(compareSpecificity([4], [4])).toBe(0);
+    });
+  });
+
+  describe("matchRoute", () => {
+    test("should extract named parameters", () => {
+      expect(matchRoute("/users/42", "/users/:id")).toEqual({
+        route: "/users/:id",
+        index: 0,
+        params: { id: "42" },
+        specificity: [4, 2],
+      });
+      expect(matchRoute("/users", "/users/:id")).toBeNull();
+      expect(matchRoute("/users/42/posts", "/users/:id")).toBeNull();
+    });
+
+    test("should support optional parameters", () => {
+      expect(matchRoute("/posts", "/posts/:page?")?.params).toEqual({
+        page: undefined,
+      });
+      expect(matchRoute("/posts/2", "/posts/:page?")?.params).toEqual({
+        page: "2",
+      });
+      expect(
+        matchRoute("/docs/api", "/docs/:version?/:section")?.params
+      ).toEqual({ version: undefined, section: "api" });
+    });
+
+    test("should apply constraints to the whole segment", () => {
+      const route = "/orders/:id(\\d+)";
+
+      expect(matchRoute("/orders/17", route)?.params).toEqual({ id: "17" });
+      expect(matchRoute("/orders/17a", route)).toBeNull();
+      expect(matchRoute("/v2", "/:version(v1|v2)")).not.toBeNull();
+      expect(matchRoute("/v12", "/:version(v1|v2)")).toBeNull();
+    });
+
+    test("should collect splat segments", () => {
+      expect(
+        matchRoute("/static/css/app.css", "/static/*file")?.params
+      ).toEqual({ file: "css/app.css" });
+      expect(matchRoute("/static", "/static/*file")).toBeNull();
+      expect(matchRoute("/static", "/static/*file?")?.params).toEqual({
+        file: undefined,
+      });
+      expect(
+        matchRoute("/a/b/c/edit", "/*path/:action(edit|view)")?.params
+      ).toEqual({ path: "a/b/c", action: "edit" });
+    });
+
+    test("should keep the original case of parameter values", () => {
+      expect(matchRoute("/USERS/Alice", "/users/:name")?.params).toEqual({
+        name: "Alice",
+      });
+      expect(
+        matchRoute("/USERS/Alice", "/users/:name", { caseSensitive: true })
+      ).toBeNull();
+    });
+
+    test("should pick the most specific route", () => {
+      const routes = [
+        "/*path",
+        "/users/:id",
+        "/users/:id(\\d+)",
+        "/users/me",
+        "/users/:id/:tab?",
+      ];
+
+      expect(matchRoute("/users/me", routes)?.route).toBe("/users/me");
+      expect(matchRoute("/users/7", routes)?.route).toBe("/users/:id(\\d+)");
+      expect(matchRoute("/users/bob", routes)?.route).toBe("/users/:id");
+      expect(matchRoute("/users/bob/likes", routes)?.route).toBe(
+        "/users/:id/:tab?"
+      );
+      expect(matchRoute("/about", routes)?.params).toEqual({ path: "about" });
+    });
+  });
+
+  describe("rankRoutes", () => {
+    test("should list every matching route, most specific first", () => {
+      expect(
+        rankRoutes("/users/me", ["/*path", "/users/:id", "/users/me"]).map(
+          (match) => [match.route, match.index]
+        )
+      ).toEqual([
+        ["/users/me", 2],
+        ["/users/:id", 1],
+        ["/*path", 0],
+      ]);
+    });
+
+    test("should keep list order for equally specific routes", () => {
+      expect(
+        rankRoutes("/a", ["/:first", "/:second"]).map((match) => match.route)
+      ).toEqual(["/:first", "/:second"]);
+    });
+
+    test("should let negated routes exclude a path", () => {
+      const routes = ["/*path", "!/admin/*rest"];
+
+      expect(rankRoutes("/admin/users", routes)).toEqual([]);
+      expect(rankRoutes("/home", routes)).toHaveLength(1);
+    });
+  });
+
+  describe("route syntax", () => {
+    test("should work with the matching functions", () => {
+      expect(
+        matcher(["/users/1", "/users/1/edit", "/posts/1"], "/users/:id", {
+          syntax: "route",
+        })
+      ).toEqual(["/users/1"]);
+      expect(
+        matchAdvanced("/users/1", "/users/:id", { syntax: "route" })[0]
+      ).toMatchObject({ matched: true, params: { id: "1" } });
+    });
+
+    test("should capture parameter values in order", () => {
+      expect(
+        matchAdvanced("/users/7/files/a/b.txt", "/users/:id/:tab?/*path", {
+          syntax: "route",
+        })[0]
+      ).toMatchObject({
+        params: { id: "7", tab: "files", path: "a/b.txt" },
+        captures: ["7", "files", "a/b.txt"],
+      });
+      expect(
+        matchAdvanced("/users/7", "/users/:id/:tab?/*path?", {
+          syntax: "route",
+        })[0]?.captures
+      ).toEqual(["7", "", ""]);
+      expect(
+        replace("/users/7/edit", "/users/:id/:action", "$2 user $1", {
+          syntax: "route",
+        })
+      ).toBe("edit user 7");
+    });
+
+    test("should honor a custom separator", () => {
+      expect(
+        matchRoute("app.users.42", "app.users.:id", { separator: "." })?.params
+      ).toEqual({ id: "42" });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { search, subsequenceMatch, indicesToRanges } from "../src/search";
+
+describe("search", () => {
+  describe("subsequenceMatch", () => {
+    test("should return null when the query is not a subsequence", () => {
+      expect(subsequenceMatch("xyz", "hello")).toBeNull();
+      expect(subsequenceMatch("hello", "hel")).toBeNull();
+    });
+
+    test("should find matched indices", () => {
+      expect(subsequenceMatch("hlo", "hello")?.indices).toEqual([0, 3, 4]);
+      expect(subsequenceMatch("", "hello")).toEqual({
+        score: 1,
+        indices: [],
+        ranges: [],
+      });
+    });
+
+    test("should prefer word starts and camelCase humps", () => {
+      expect(subsequenceMatch("gp", "getPackage")?.indices).toEqual([0, 3]);
+      expect(subsequenceMatch("fb", "foo_bar")?.indices).toEqual([0, 4]);
+      expect(subsequenceMatch("fb", "foo_bar_fb")?.indices).toEqual([8, 9]);
+      expect(subsequenceMatch("ob", "foobar open_book")?.indices).toEqual([
+        7, 12,
+      ]);
+    });
+
+    test("should score between 0 and 1", () => {
+      const exact = subsequenceMatch("open", "open")!;
+      const scattered = subsequenceMatch("open", "o-x-p-x-e-x-n")!;
+
+      expect(exact.score).toBeLessThanOrEqual(1);
+      expect(scattered.score).toBeGreaterThan(0);
+      expect(exact.score).toBeGreaterThan(scattered.score);
+    });
+
+    test("should respect case and accent options", () => {
+      expect(subsequenceMatch("ab", "AB")).not.toBeNull();
+      expect(subsequenceMatch("ab", "AB", { caseSensitive: true })).toBeNull();
+      expect(
+        subsequenceMatch("cafe", "cafés", { accentInsensitive: true })?.indices
+      ).toEqual([0, 1, 2, 3]);
+      expect(
+        subsequenceMatch("strasse", "Straße", { caseFolding: "full" })?.indices
+      ).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    test("should report ranges in the original target", () => {
+      expect(
+        subsequenceMatch("cafe", "Cafe\u0301!", { accentInsensitive: true })
+          ?.ranges
+      ).toEqual([[0, 5]]);
+      expect(
+        subsequenceMatch("ss", "Maß", { caseFolding: "full" })?.ranges
+      ).toEqual([[2, 3]]);
+      expect(
+        search("nang", ["Đà Nẵng"], { accentInsensitive: true })[0]?.ranges
+      ).toEqual([[3, 7]]);
+    });
+  });
+
+  describe("indicesToRanges", () => {
+    test("should group consecutive indices", () => {
+      expect(indicesToRanges([0, 1, 2, 5, 7, 8])).toEqual([
+        [0, 3],
+        [5, 6],
+        [7, 9],
+      ]);
+      expect(indicesToRanges([])).toEqual([]);
+    });
+  });
+
+  describe("search", () => {
+    const commands = [
+      "Toggle Sidebar",
+      "Open File",
+      "Open Folder",
+      "Go to File",
+    ];
+
+    test("should rank results by score", () => {
+      const results = search("of", commands);
+
+      expect(results.map((r) => r.item).slice(0, 2)).toEqual([
+        "Open File",
+        "Open Folder",
+      ]);
+      expect(results[0]).toMatchObject({
+        matched: true,
+        input: "Open File",
+        index: 1,
+        indices: [0, 5],
+        ranges: [
+          [0, 1],
+          [5, 6],
+        ],
+      });
+    });
+
+    test("should sort by score, then length, then order", () => {
+      const results = search("file", ["File Browser", "Go to File", "File"]);
+      expect(results.map((r) => r.item)).toEqual([
+        "File",
+        "Go to File",
+        "File Browser",
+      ]);
+      expect(search("ab", ["xab", "yab"]).map((r) => r.item)).toEqual([
+        "xab",
+        "yab",
+      ]);
+    });
+
+    test("should apply limit and minScore", () => {
+      expect(search("o", commands, { limit: 2 })).toHaveLength(2);
+      expect(search("of", commands, { minScore: 1 })).toEqual([]);
+    });
+
+    test("should search object keys", () => {
+      const books = [
+        { title: "Dune", author: { name: "Frank Herbert" } },
+        { title: "Emma", author: { name: "Jane Austen" } },
+      ];
+      const results = search("ja", books, { keys: ["title", "author.name"] });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        item: books[1],
+        key: "author.name",
+        input: "Jane Austen",
+      });
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Lets `matchParallel` start its worker from the TypeScript sources, which
+ * have no compiled `parallel-worker.js` next to them
+ */
+jest.mock("worker_threads", () => {
+  const { existsSync } = jest.requireActual<typeof import("fs")>("fs");
+  const workerThreads =
+    jest.requireActual<typeof import("worker_threads")>("worker_threads");
+
+  // Transpiles required .ts files on the fly, then runs the worker script
+  const bootstrap = `
+const { readFileSync } = require("fs");
+const ts = require("typescript");
+require.extensions[".ts"] = (module, filename) => {
+  const { outputText } = ts.transpileModule(readFileSync(filename, "utf8"), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  module._compile(outputText, filename);
+};
+require(require("worker_threads").workerData.script);
+`;
+
+  class Worker extends workerThreads.Worker {
+    constructor(
+      filename: string | URL,
+      options: import("worker_threads").WorkerOptions = {}
+    ) {
+      const script =
+        typeof filename === "string" ? filename.replace(/\.js$/, ".ts") : "";
+      const fromSource =
+        typeof filename === "string" &&
+        !existsSync(filename) &&
+        existsSync(script);
+
+      super(
+        fromSource ? bootstrap : filename,
+        fromSource
+          ? {
+              ...options,
+              eval: true,
+              workerData: { ...options.workerData, script },
+            }
+          : options
+      );
+    }
+  }
+
+  return { ...workerThreads, Worker };
+});
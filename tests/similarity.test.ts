@@ -0,0 +1,182 @@
+import {
+  damerauLevenshteinDistance,
+  jaroWinklerSimilarity,
+  diceCoefficient,
+  soundex,
+  doubleMetaphone,
+  registerFuzzyAlgorithm,
+  unregisterFuzzyAlgorithm,
+  getFuzzyAlgorithm,
+} from "../src/similarity";
+import { levenshteinDistance } from "../src/utils";
+import { matcher } from "../src/matcher";
+import { MatcherOptionsError } from "../src/errors";
+import type { BuiltInFuzzyAlgorithm, SimilarityScorer } from "../src/types";
+
+const algorithms: BuiltInFuzzyAlgorithm[] = [
+  "levenshtein",
+  "damerau-levenshtein",
+  "jaro-winkler",
+  "trigram",
+  "soundex",
+  "double-metaphone",
+];
+
+const pairs: Array<[string, string]> = [
+  ["", ""],
+  ["abc", ""],
+  ["teh", "the"],
+  ["martha", "marhta"],
+  ["robert", "rupert"],
+  ["smith", "schmidt"],
+  ["kitten", "sitting"],
+  ["abc", "xyz"],
+  ["a", "a much longer string"],
+];
+
+describe("similarity", () => {
+  describe("damerauLevenshteinDistance", () => {
+    test("should count adjacent transpositions as one edit", () => {
+      expect(damerauLevenshteinDistance("teh", "the")).toBe(1);
+      expect(levenshteinDistance("teh", "the")).toBe(2);
+      expect(damerauLevenshteinDistance("ca", "abc")).toBe(3);
+    });
+
+    test("should stop at the distance cap", () => {
+      expect(damerauLevenshteinDistance("teh", "the", 1)).toBe(1);
+      expect(damerauLevenshteinDistance("abcdef", "badcfe", 2)).toBe(3);
+      expect(damerauLevenshteinDistance("abcdef", "badcfe")).toBe(3);
+    });
+
+    test("should agree with Levenshtein without transpositions", () => {
+      expect(damerauLevenshteinDistance("", "test")).toBe(4);
+      expect(damerauLevenshteinDistance("kitten", "sitting")).toBe(3);
+      expect(damerauLevenshteinDistance("same", "same")).toBe(0);
+    });
+  });
+
+  describe("jaroWinklerSimilarity", () => {
+    test("should match reference values", () => {
+      expect(jaroWinklerSimilarity("martha", "marhta")).toBeCloseTo(0.961, 3);
+      expect(jaroWinklerSimilarity("dixon", "dicksonx")).toBeCloseTo(0.813, 3);
+      expect(jaroWinklerSimilarity("abc", "xyz")).toBe(0);
+    });
+  });
+
+  describe("diceCoefficient", () => {
+    test("should compare trigrams", () => {
+      expect(diceCoefficient("night", "night")).toBe(1);
+      expect(diceCoefficient("night", "nacht")).toBeGreaterThan(0);
+      expect(diceCoefficient("night", "nacht")).toBeLessThan(0.5);
+      expect(diceCoefficient("abc", "xyz")).toBe(0);
+    });
+  });
+
+  describe("soundex", () => {
+    test("should compute American Soundex codes", () => {
+      expect(soundex("Robert")).toBe("R163");
+      expect(soundex("Rupert")).toBe("R163");
+      expect(soundex("Tymczak")).toBe("T522");
+      expect(soundex("Pfister")).toBe("P236");
+      expect(soundex("Ashcraft")).toBe("A261");
+      expect(soundex("Lee")).toBe("L000");
+      expect(soundex("123")).toBe("");
+    });
+  });
+
+  describe("doubleMetaphone", () => {
+    test("should compute primary and secondary codes", () => {
+      expect(doubleMetaphone("Smith")).toEqual(["SM0", "XMT"]);
+      expect(doubleMetaphone("Schmidt")).toEqual(["XMT", "SMT"]);
+      expect(doubleMetaphone("Catherine")).toEqual(["K0RN", "KTRN"]);
+      expect(doubleMetaphone("Katherine")).toEqual(["K0RN", "KTRN"]);
+      expect(doubleMetaphone("Philip")).toEqual(["FLP", "FLP"]);
+      expect(doubleMetaphone("Knight")).toEqual(["NT", "NT"]);
+      expect(doubleMetaphone("Xavier")[0]).toMatch(/^S/);
+    });
+  });
+
+  describe("score ranges", () => {
+    test.each(algorithms)("%s should score between 0 and 1", (algorithm) => {
+      const scorer = getFuzzyAlgorithm(algorithm);
+
+      for (const [a, b] of pairs) {
+        const score = scorer(a, b);
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(1);
+        expect(scorer(b, a)).toBeCloseTo(score, 10);
+      }
+
+      expect(scorer("matcher", "matcher")).toBe(1);
+    });
+
+    test("should rank typos according to each algorithm", () => {
+      const levenshtein = getFuzzyAlgorithm("levenshtein");
+      const damerau = getFuzzyAlgorithm("damerau-levenshtein");
+      expect(damerau("teh", "the")).toBeGreaterThan(levenshtein("teh", "the"));
+
+      expect(getFuzzyAlgorithm("soundex")("robert", "rupert")).toBe(1);
+      expect(getFuzzyAlgorithm("double-metaphone")("smith", "schmidt")).toBe(1);
+      expect(getFuzzyAlgorithm("jaro-winkler")("abc", "xyz")).toBe(0);
+    });
+  });
+
+  describe("fuzzyAlgorithm option", () => {
+    const names = ["Smith", "Schmidt", "Jones"];
+
+    test("should route fuzzy matching through the selected algorithm", () => {
+      expect(
+        matcher(names, "smyth", { fuzzyMatch: true, fuzzyThreshold: 0.9 })
+      ).toEqual([]);
+      expect(
+        matcher(names, "smyth", {
+          fuzzyMatch: true,
+          fuzzyThreshold: 0.9,
+          fuzzyAlgorithm: "double-metaphone",
+        })
+      ).toEqual(["Smith", "Schmidt"]);
+    });
+
+    test("should score substring hits with the selected algorithm", () => {
+      expect(
+        matcher(["Robert", "Rupert", "Bob Robert"], "Robert", {
+          fuzzyMatch: true,
+          minSimilarity: 1,
+          fuzzyAlgorithm: "soundex",
+        })
+      ).toEqual(["Robert", "Rupert"]);
+    });
+
+    test("should use registered custom scorers", () => {
+      registerFuzzyAlgorithm("first-letter", (a, b) => (a[0] === b[0] ? 1 : 0));
+
+      try {
+        expect(
+          matcher(names, "jxxxx", {
+            fuzzyMatch: true,
+            fuzzyThreshold: 1,
+            fuzzyAlgorithm: "first-letter",
+          })
+        ).toEqual(["Jones"]);
+      } finally {
+        unregisterFuzzyAlgorithm("first-letter");
+      }
+    });
+
+    test("should reject unknown and built-in names", () => {
+      expect(() =>
+        matcher(names, "x", { fuzzyMatch: true, fuzzyAlgorithm: "nope" })
+      ).toThrow("Unknown fuzzy algorithm: nope");
+      expect(() => getFuzzyAlgorithm("toString")).toThrow("Unknown");
+      expect(() => registerFuzzyAlgorithm("soundex", () => 1)).toThrow(
+        "built-in"
+      );
+      expect(() => registerFuzzyAlgorithm("soundex", () => 1)).toThrow(
+        MatcherOptionsError
+      );
+      expect(() =>
+        registerFuzzyAlgorithm("custom", "nope" as unknown as SimilarityScorer)
+      ).toThrow(MatcherOptionsError);
+    });
+  });
+});
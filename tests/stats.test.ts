@@ -0,0 +1,120 @@
+import { performance } from "perf_hooks";
+import { SimplePerformanceMonitor } from "../src/stats";
+import { fuzzyMatch, isMatch, matchAdvanced, matcher } from "../src/matcher";
+import type { MatchStats, PerformanceMonitor } from "../src/types";
+
+describe("match statistics", () => {
+  test("should report the counts of a call to onStats", () => {
+    const onStats = jest.fn<void, [MatchStats]>();
+    matcher(["a.ts", "b.ts", "c.js"], ["*.ts", "!b*"], { onStats });
+
+    expect(onStats).toHaveBeenCalledTimes(1);
+    const [stats] = onStats.mock.calls[0]!;
+    expect(stats).toMatchObject({
+      totalInputs: 3,
+      totalPatterns: 2,
+      matchCount: 1,
+      averageScore: 1,
+    });
+    expect(stats.processingTime).toBeGreaterThanOrEqual(0);
+  });
+
+  test("should report stats for empty inputs and isMatch", () => {
+    const reports: MatchStats[] = [];
+    const onStats = (stats: MatchStats): void => {
+      reports.push(stats);
+    };
+
+    matcher([], "*", { onStats });
+    isMatch(["x", "y"], "y", { onStats });
+
+    expect(reports[0]).toMatchObject({ totalInputs: 0, matchCount: 0 });
+    expect(reports[0]!.averageScore).toBeUndefined();
+    expect(reports[1]).toMatchObject({ totalInputs: 2, matchCount: 1 });
+  });
+
+  test("should average fuzzy scores", () => {
+    let stats: MatchStats | undefined;
+    const results = fuzzyMatch(["hello", "help", "world"], "helo", 0.5, {
+      onStats: (s) => (stats = s),
+    });
+
+    const expected =
+      results.reduce((sum, result) => sum + (result.score ?? 0), 0) /
+      results.length;
+    expect(stats!.matchCount).toBe(results.length);
+    expect(stats!.averageScore).toBeCloseTo(expected);
+  });
+
+  test("should report the cache hit rate of the call", () => {
+    let stats: MatchStats | undefined;
+    const onStats = (s: MatchStats): void => {
+      stats = s;
+    };
+    const pattern = `stats-${Date.now()}-*`;
+
+    matcher(["a"], pattern, { onStats });
+    expect(stats!.cacheHitRate).toBe(0);
+
+    matcher(["a"], pattern, { onStats });
+    expect(stats!.cacheHitRate).toBe(1);
+  });
+
+  test("should time each result of matchAdvanced on its own", () => {
+    // Every clock reading advances by 1ms
+    let now = 0;
+    const clock = jest
+      .spyOn(performance, "now")
+      .mockImplementation(() => ++now);
+    try {
+      const inputs = ["a", ...Array.from({ length: 100 }, () => "x"), "ab"];
+      const results = matchAdvanced(inputs, "a*");
+
+      expect(results.map((result) => result.metadata?.processingTime)).toEqual([
+        1, 1,
+      ]);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test("should time keyed results", () => {
+    const [result] = matchAdvanced([{ name: "ann" }], "a*", {
+      keys: ["name"],
+    });
+    expect(result?.metadata?.processingTime).toBeGreaterThanOrEqual(0);
+  });
+
+  test("should start, end and record with a custom monitor", () => {
+    const calls: string[] = [];
+    const recorded: MatchStats[] = [];
+    const monitor: PerformanceMonitor = {
+      start: () => void calls.push("start"),
+      end: () => (calls.push("end"), 0),
+      record: (stats) => void recorded.push(stats),
+      getStats: () => recorded[0]!,
+    };
+
+    matchAdvanced(["a", "b"], "a", { monitor });
+
+    expect(calls).toEqual(["start", "end"]);
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0]).toMatchObject({ totalInputs: 2, matchCount: 1 });
+  });
+
+  test("should add up calls in SimplePerformanceMonitor", () => {
+    const monitor = new SimplePerformanceMonitor();
+
+    matcher(["a", "b"], "a", { monitor });
+    fuzzyMatch(["abc"], "abd", 0.1, { monitor });
+
+    const stats = monitor.getStats();
+    expect(stats).toMatchObject({
+      totalInputs: 3,
+      totalPatterns: 2,
+      matchCount: 2,
+    });
+    expect(stats.averageScore).toBeGreaterThan(0.5);
+    expect(stats.averageScore).toBeLessThan(1);
+  });
+});
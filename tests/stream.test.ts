@@ -0,0 +1,155 @@
+import { Readable } from "stream";
+import {
+  matchAsyncIterable,
+  matchIterable,
+  matchStream,
+  matchWebStream,
+} from "../src/stream";
+
+/**
+ * Collects the chunks a readable stream emits as strings
+ */
+async function collect(stream: NodeJS.ReadableStream): Promise<unknown[]> {
+  const chunks: unknown[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? chunk : chunk.toString());
+  }
+  return chunks;
+}
+
+describe("stream", () => {
+  describe("matchIterable", () => {
+    test("should lazily yield matching inputs", () => {
+      const seen: string[] = [];
+      function* files(): Generator<string> {
+        for (const file of ["a.ts", "b.d.ts", "c.js", "d.ts"]) {
+          seen.push(file);
+          yield file;
+        }
+      }
+
+      const matches = matchIterable(files(), ["*.ts", "!*.d.ts"]);
+
+      expect(matches.next().value).toBe("a.ts");
+      expect(seen).toEqual(["a.ts"]);
+      expect([...matches]).toEqual(["d.ts"]);
+    });
+  });
+
+  describe("matchAsyncIterable", () => {
+    test("should yield matches from async and sync iterables", async () => {
+      async function* lines(): AsyncGenerator<string> {
+        yield "INFO start";
+        yield "ERROR disk full";
+        yield "ERROR timeout";
+      }
+
+      const matches: string[] = [];
+      for await (const line of matchAsyncIterable(lines(), "error*")) {
+        matches.push(line);
+      }
+      expect(matches).toEqual(["ERROR disk full", "ERROR timeout"]);
+
+      const fromArray: string[] = [];
+      for await (const file of matchAsyncIterable(["a.js", "b.md"], "*.js")) {
+        fromArray.push(file);
+      }
+      expect(fromArray).toEqual(["a.js"]);
+    });
+
+    test("should yield to the event loop every N inputs", async () => {
+      const inputs = Array.from({ length: 10 }, (_, i) => `file-${i}`);
+      // Queued callbacks only run once the generator yields
+      const seenAt: number[] = [];
+      const matches: string[] = [];
+      setImmediate(() => seenAt.push(matches.length));
+
+      for await (const input of matchAsyncIterable(inputs, "*", {
+        yieldEvery: 2,
+      })) {
+        matches.push(input);
+      }
+
+      expect(matches).toHaveLength(10);
+      expect(seenAt).toEqual([2]);
+    });
+
+    test("should stop when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const matches: string[] = [];
+
+      await expect(async () => {
+        for await (const input of matchAsyncIterable(["a", "b", "c"], "*", {
+          signal: controller.signal,
+        })) {
+          matches.push(input);
+          controller.abort();
+        }
+      }).rejects.toMatchObject({ name: "AbortError" });
+      expect(matches).toEqual(["a"]);
+    });
+
+    test("should reject invalid yieldEvery values", async () => {
+      await expect(
+        matchAsyncIterable(["a"], "*", { yieldEvery: 0 }).next()
+      ).rejects.toThrow("yieldEvery must be a positive integer");
+    });
+  });
+
+  describe("matchStream", () => {
+    test("should pass through matching lines across chunk boundaries", async () => {
+      const source = Readable.from(
+        [Buffer.from("src/a.js\r\nsrc/a.min"), ".js\nREADME.md\nlib/b.js"],
+        { objectMode: false }
+      );
+
+      const output = await collect(
+        source.pipe(matchStream(["*.js", "!*.min.js"]))
+      );
+
+      expect(output.join("")).toBe("src/a.js\nlib/b.js\n");
+    });
+
+    test("should decode multi-byte characters split across chunks", async () => {
+      const bytes = Buffer.from("café.js\n");
+      const source = Readable.from([bytes.subarray(0, 4), bytes.subarray(4)], {
+        objectMode: false,
+      });
+
+      const output = await collect(source.pipe(matchStream("*.js")));
+
+      expect(output.join("")).toBe("café.js\n");
+    });
+
+    test("should match whole chunks in object mode", async () => {
+      const source = Readable.from(["a.ts", "lib/c.ts", "d.md"]);
+
+      const output = await collect(
+        source.pipe(matchStream("*.ts", { objectMode: true }))
+      );
+
+      expect(output).toEqual(["a.ts", "lib/c.ts"]);
+    });
+  });
+
+  describe("matchWebStream", () => {
+    test("should pass through matching lines", async () => {
+      const source = new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue("a.js\nb.m");
+          controller.enqueue("d\nc.js");
+          controller.close();
+        },
+      });
+
+      const output: string[] = [];
+      const reader = source.pipeThrough(matchWebStream("*.js")).getReader();
+      for (let chunk = await reader.read(); !chunk.done; ) {
+        output.push(chunk.value);
+        chunk = await reader.read();
+      }
+
+      expect(output).toEqual(["a.js\n", "c.js\n"]);
+    });
+  });
+});
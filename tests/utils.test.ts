@@ -3,11 +3,23 @@ import {
   normalizeString,
   levenshteinDistance,
   calculateSimilarity,
+  resolveFuzzyCriteria,
+  fuzzyMatch,
   compilePattern,
   validatePattern,
+  tokenizePattern,
+  getLiteralText,
+  escapePattern,
   clearPatternCache,
   getCacheStats,
+  makeRe,
+  toRegExp,
+  captureFragments,
+  normalizeWithOffsets,
+  originalRange,
+  now,
 } from "../src/utils";
+import { isMatch } from "../src/matcher";
 
 describe("utils", () => {
   describe("escapeRegExp", () => {
@@ -35,6 +47,81 @@ describe("utils", () => {
         "naive"
       );
     });
+
+    test("should remove stacked and non-combining diacritics", () => {
+      const options = { accentInsensitive: true };
+
+      // Vietnamese letters carry two diacritics, and đ has none to decompose
+      expect(normalizeString("Tiếng Việt", options)).toBe("tieng viet");
+      expect(normalizeString("Đà Nẵng", options)).toBe("da nang");
+      // Greek tonos, both as U+03AC and as polytonic oxia U+1F71
+      expect(normalizeString("Ἀθῆναι", options)).toBe("αθηναι");
+      expect(normalizeString("ΆΘΗΝΑ", options)).toBe("αθηνα");
+      expect(normalizeString("\u1f71", options)).toBe("α");
+      expect(normalizeString("Łódź Ørsted", options)).toBe("lodz orsted");
+      // Decomposed input and scripts whose marks are not diacritics
+      expect(normalizeString("cafe\u0301", options)).toBe("cafe");
+      expect(normalizeString("한국어", options)).toBe("한국어");
+    });
+
+    test("should fold case fully", () => {
+      expect(normalizeString("Straße", { caseFolding: "full" })).toBe(
+        normalizeString("STRASSE", { caseFolding: "full" })
+      );
+      expect(normalizeString("Straße")).toBe("straße");
+      expect(normalizeString("ﬁle", { caseFolding: "full" })).toBe("file");
+      expect(normalizeString("ΣΊΣΥΦΟΣ")).toBe(normalizeString("σίσυφος"));
+    });
+
+    test("should fold case with the rules of a locale", () => {
+      expect(normalizeString("DİYARBAKIR", { locale: "tr" })).toBe(
+        "diyarbakır"
+      );
+      expect(normalizeString("I", { locale: "tr" })).not.toBe("i");
+      expect(normalizeString("I")).toBe("i");
+    });
+
+    test("should map normalized positions to the original string", () => {
+      const folded = normalizeWithOffsets("Straße!", { caseFolding: "full" });
+      expect(folded.text).toBe("strasse!");
+      expect(folded.starts).toEqual([0, 1, 2, 3, 4, 4, 5, 6]);
+      expect(originalRange(folded, 4, 6)).toEqual([4, 5]);
+      expect(originalRange(folded, 5, 8)).toEqual([4, 7]);
+      expect(originalRange(folded, 8, 8)).toEqual([7, 7]);
+
+      const accented = normalizeWithOffsets("Cafe\u0301 noir", {
+        accentInsensitive: true,
+      });
+      expect(accented.text).toBe("cafe noir");
+      expect(originalRange(accented, 0, 4)).toEqual([0, 5]);
+      expect(originalRange(accented, 5, 9)).toEqual([6, 10]);
+    });
+
+    test("should normalize like normalizeString", () => {
+      const options = [
+        { accentInsensitive: true, normalization: "NFKC" },
+        { caseFolding: "full", locale: "tr" },
+        { normalization: "NFKD" },
+      ] as const;
+      const text = "İSTANBUL ΣΟΦΟΣ Straße ﬁ Đà Nẵng 한국어 e\u0301";
+
+      for (const option of options) {
+        expect(normalizeWithOffsets(text, option).text).toBe(
+          normalizeString(text, option)
+        );
+      }
+    });
+
+    test("should apply a normalization form", () => {
+      expect(normalizeString("e\u0301", { normalization: "NFC" })).toBe("é");
+      expect(normalizeString("e\u0301")).toBe("e\u0301");
+      expect(normalizeString("Ｆｉｌｅ²", { normalization: "NFKC" })).toBe(
+        "file2"
+      );
+      expect(normalizeString("ﬁé", { normalization: "NFKD" })).toBe(
+        "fie\u0301"
+      );
+    });
   });
 
   describe("levenshteinDistance", () => {
@@ -46,6 +133,157 @@ describe("utils", () => {
       expect(levenshteinDistance("test", "best")).toBe(1);
       expect(levenshteinDistance("hello", "helo")).toBe(1);
     });
+
+    test("should stop at the distance cap", () => {
+      expect(levenshteinDistance("kitten", "sitting", 3)).toBe(3);
+      expect(levenshteinDistance("kitten", "sitting", 1)).toBe(2);
+      expect(levenshteinDistance("a", "abcdef", 2)).toBe(3);
+      expect(levenshteinDistance("test", "best", 0)).toBe(1);
+    });
+
+    test("should agree with the full matrix on short and long strings", () => {
+      const reference = (a: string, b: string): number => {
+        const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+          Array.from({ length: b.length + 1 }, (_, j) =>
+            i === 0 ? j : j === 0 ? i : 0
+          )
+        );
+        for (let i = 1; i <= a.length; i++) {
+          for (let j = 1; j <= b.length; j++) {
+            rows[i]![j] = Math.min(
+              rows[i - 1]![j]! + 1,
+              rows[i]![j - 1]! + 1,
+              rows[i - 1]![j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+          }
+        }
+        return rows[a.length]![b.length]!;
+      };
+
+      // Deterministic pseudo-random strings over a small alphabet
+      let seed = 42;
+      const random = (): number => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+      const randomString = (length: number): string =>
+        Array.from({ length }, () => "abcd"[Math.floor(random() * 4)]).join("");
+
+      for (const [aLength, bLength] of [
+        [5, 8],
+        [31, 32],
+        [32, 40],
+        [33, 33],
+        [50, 64],
+        [70, 45],
+      ]) {
+        const a = randomString(aLength!);
+        const b = randomString(bLength!);
+        const expected = reference(a, b);
+
+        expect(levenshteinDistance(a, b)).toBe(expected);
+        for (const cap of [0, expected - 1, expected, expected + 5]) {
+          expect(levenshteinDistance(a, b, Math.max(0, cap))).toBe(
+            Math.min(expected, Math.max(0, cap) + 1)
+          );
+        }
+      }
+    });
+
+    test("should handle characters outside the Latin-1 range", () => {
+      expect(levenshteinDistance("naïve café", "naive cafe")).toBe(2);
+      expect(levenshteinDistance("日本語", "日本")).toBe(1);
+    });
+  });
+
+  describe("resolveFuzzyCriteria", () => {
+    test("should read fuzzyThreshold as a similarity or a distance", () => {
+      expect(resolveFuzzyCriteria()).toEqual({ minSimilarity: 0.6 });
+      expect(resolveFuzzyCriteria({ fuzzyThreshold: 1 })).toEqual({
+        minSimilarity: 1,
+      });
+      expect(resolveFuzzyCriteria({ fuzzyThreshold: 2 })).toEqual({
+        maxDistance: 2,
+      });
+    });
+
+    test("should prefer maxDistance, then minSimilarity", () => {
+      expect(
+        resolveFuzzyCriteria({
+          fuzzyThreshold: 0.5,
+          minSimilarity: 0.7,
+          maxDistance: 1,
+        })
+      ).toEqual({ maxDistance: 1 });
+      expect(
+        resolveFuzzyCriteria({ fuzzyThreshold: 3, minSimilarity: 0.7 })
+      ).toEqual({ minSimilarity: 0.7 });
+    });
+
+    test("should reject values without a defined meaning", () => {
+      expect(() => resolveFuzzyCriteria({ fuzzyThreshold: 1.5 })).toThrow(
+        "fuzzyThreshold"
+      );
+      expect(() => resolveFuzzyCriteria({ fuzzyThreshold: -1 })).toThrow(
+        "fuzzyThreshold"
+      );
+      expect(() => resolveFuzzyCriteria({ maxDistance: 0.5 })).toThrow(
+        "maxDistance"
+      );
+      expect(() => resolveFuzzyCriteria({ minSimilarity: 2 })).toThrow(
+        "minSimilarity"
+      );
+    });
+  });
+
+  describe("fuzzyMatch", () => {
+    test("should apply a distance cutoff", () => {
+      expect(fuzzyMatch("kitten", "sitting", 3)).toMatchObject({
+        matched: true,
+        distance: 3,
+      });
+      expect(fuzzyMatch("kitten", "sitting", { maxDistance: 2 })).toMatchObject(
+        { matched: false, distance: 3 }
+      );
+    });
+
+    test("should not score inputs over the distance cap", () => {
+      const scorer = jest.fn(() => 1);
+
+      expect(
+        fuzzyMatch("kitten", "sitting", { maxDistance: 1 }, scorer)
+      ).toEqual({ matched: false, score: 0, distance: 2 });
+      expect(scorer).not.toHaveBeenCalled();
+    });
+
+    test("should apply the distance cutoff to substring hits", () => {
+      expect(fuzzyMatch("colors", "color", { maxDistance: 1 })).toEqual({
+        matched: true,
+        score: expect.closeTo(35 / 36),
+        distance: 1,
+      });
+      expect(fuzzyMatch("colors", "color", { maxDistance: 0 }).matched).toBe(
+        false
+      );
+      expect(fuzzyMatch("color", "color", { maxDistance: 0 })).toEqual({
+        matched: true,
+        score: 1,
+        distance: 0,
+      });
+    });
+
+    test("should reject dissimilar inputs by default", () => {
+      expect(fuzzyMatch("hello", "helo").matched).toBe(true);
+      expect(fuzzyMatch("hello", "halt").matched).toBe(false);
+      expect(fuzzyMatch("hello", "xyz").matched).toBe(false);
+    });
+
+    test("should hold substring hits to the minimum similarity", () => {
+      // 6/11 similar, plus 5/11 of the remaining gap for the covered part
+      expect(fuzzyMatch("hello world", "world").score).toBeCloseTo(85 / 121);
+      expect(fuzzyMatch("hello world", "world", 0.7).matched).toBe(true);
+      expect(fuzzyMatch("hello world", "world", 0.8).matched).toBe(false);
+    });
   });
 
   describe("calculateSimilarity", () => {
@@ -57,6 +295,57 @@ describe("utils", () => {
     });
   });
 
+  describe("captureFragments", () => {
+    test("should capture wildcards and keep the original case", () => {
+      const entry = compilePattern("*-v?.*");
+
+      expect(captureFragments(entry, "app-v2.js")).toEqual(["app", "2", "js"]);
+      expect(captureFragments(entry, "app-v2.js", "App-V2.JS")).toEqual([
+        "App",
+        "2",
+        "JS",
+      ]);
+      expect(captureFragments(entry, "app.js")).toBeNull();
+    });
+
+    test("should capture from the original when normalization changed the length", () => {
+      const options = { caseFolding: "full", accentInsensitive: true } as const;
+      const entry = compilePattern("*-v?.*", options);
+      const original = "Straße-V2.Ĵś";
+
+      expect(
+        captureFragments(
+          entry,
+          normalizeString(original, options),
+          normalizeWithOffsets(original, options)
+        )
+      ).toEqual(["Straße", "2", "Ĵś"]);
+    });
+
+    test("should count variable-length glob fragments", () => {
+      const entry = compilePattern("{src,test}/*.[jt]s", { syntax: "glob" });
+      expect(captureFragments(entry, "test/app.ts")).toEqual(["app"]);
+    });
+  });
+
+  describe("now", () => {
+    test("should fall back to Date.now without a global performance", () => {
+      const performance = Object.getOwnPropertyDescriptor(
+        globalThis,
+        "performance"
+      )!;
+      const dateNow = jest.spyOn(Date, "now").mockReturnValue(42);
+      try {
+        delete (globalThis as { performance?: Performance }).performance;
+        expect(now()).toBe(42);
+      } finally {
+        Object.defineProperty(globalThis, "performance", performance);
+        dateNow.mockRestore();
+      }
+      expect(now()).toBeLessThan(Date.now());
+    });
+  });
+
   describe("compilePattern", () => {
     beforeEach(() => {
       clearPatternCache();
@@ -95,5 +384,152 @@ describe("utils", () => {
       expect(result.valid).toBe(false);
       expect(result.error).toContain("Pattern must be a string");
     });
+
+    test("should report the position of every unescaped character", () => {
+      expect(validatePattern("a(b)\\(").error).toBe(
+        'Unsupported characters found: "(" at position 1, ")" at position 3. Use \\ to escape them.'
+      );
+      // The same character escaped earlier must not hide a later one
+      expect(validatePattern("\\++").error).toContain('"+" at position 2');
+      expect(validatePattern("\\(\\)")).toEqual({ valid: true });
+    });
+
+    test("should reject a trailing escape", () => {
+      expect(validatePattern("abc\\").error).toBe(
+        "Unfinished escape at position 3"
+      );
+      expect(validatePattern("abc\\\\")).toEqual({ valid: true });
+    });
+
+    test("should accept anything in literal mode", () => {
+      expect(validatePattern("a(b\\", { literal: true })).toEqual({
+        valid: true,
+      });
+    });
+  });
+
+  describe("tokenizePattern", () => {
+    test("should split wildcards, escapes and negation", () => {
+      expect(
+        tokenizePattern("!a\\**?**").map(({ type, value, start, end }) => [
+          type,
+          value,
+          start,
+          end,
+        ])
+      ).toEqual([
+        ["negation", "!", 0, 1],
+        ["literal", "a", 1, 2],
+        ["escape", "*", 2, 4],
+        ["star", "*", 4, 5],
+        ["char", "?", 5, 6],
+        ["star", "**", 6, 8],
+      ]);
+    });
+
+    test("should only treat a leading ! as negation", () => {
+      expect(tokenizePattern("a!").map((token) => token.type)).toEqual([
+        "literal",
+        "literal",
+      ]);
+      expect(tokenizePattern("\\!a")[0]).toMatchObject({
+        type: "escape",
+        value: "!",
+      });
+    });
+
+    test("should resolve the literal text", () => {
+      expect(getLiteralText("!*.test\\?")).toBe(".test?");
+    });
+  });
+
+  describe("escapePattern", () => {
+    test("should escape wildcards, backslashes and a leading !", () => {
+      expect(escapePattern("!a*b?c\\d!")).toBe("\\!a\\*b\\?c\\\\d!");
+      expect(escapePattern("(a|b)")).toBe("\\(a\\|b\\)");
+    });
+
+    test("should round-trip through matching", () => {
+      const inputs = ["!what?*", "a\\b", "{x,y}[1]", "c++ (v2)", "$HOME^"];
+
+      for (const input of inputs) {
+        const pattern = escapePattern(input);
+        expect(isMatch(input, pattern)).toBe(true);
+        expect(isMatch(input, pattern, { syntax: "glob" })).toBe(true);
+        expect(isMatch(input + "x", pattern)).toBe(false);
+      }
+    });
+  });
+
+  describe("makeRe", () => {
+    test("should map every regex fragment to its pattern token", () => {
+      const { regex, fragments } = makeRe("src/*.js");
+
+      expect(fragments.map((f) => f.source).join("")).toBe(regex.source);
+      expect(
+        fragments.map(({ type, token, start, end }) => [
+          type,
+          token,
+          start,
+          end,
+        ])
+      ).toEqual([
+        ["anchor", "", 0, 0],
+        ["literal", "src/", 0, 4],
+        ["star", "*", 4, 5],
+        ["literal", ".js", 5, 8],
+        ["anchor", "", 8, 8],
+      ]);
+    });
+
+    test("should map glob tokens", () => {
+      const { regex, fragments } = makeRe("**/[a-z]?.{js,ts}", {
+        syntax: "glob",
+      });
+
+      expect(fragments.map((f) => f.source).join("")).toBe(regex.source);
+      expect(fragments.map((f) => f.token)).toEqual([
+        "",
+        "**/",
+        "[a-z]",
+        "?",
+        ".",
+        "{js,ts}",
+        "",
+      ]);
+    });
+
+    test("should build negation into the regex", () => {
+      const { regex, isNegated, fragments } = makeRe("!*.min.js");
+
+      expect(isNegated).toBe(true);
+      expect(regex.test("app.js")).toBe(true);
+      expect(regex.test("app.min.js")).toBe(false);
+      expect(fragments[1]).toMatchObject({ type: "negation", token: "!" });
+      expect(fragments[2]).toMatchObject({ type: "anchor", start: 1 });
+    });
+
+    test("should agree with the engine", () => {
+      const cases: Array<[string, string, Parameters<typeof makeRe>[1]]> = [
+        ["Hello", "hel*", {}],
+        ["Hello", "hel*", { caseSensitive: true }],
+        ["say hello", "hello", { wordBoundary: true }],
+        ["src/lib/a.js", "*.js", { path: true }],
+        ["src\\a.js", "src/*.js", { path: true }],
+        ["foo.js", "!(foo).js", { syntax: "glob" }],
+        ["a.js", "!a.*", {}],
+      ];
+
+      for (const [input, pattern, options] of cases) {
+        const regexInput = options?.path ? input.replace(/\\/g, "/") : input;
+        expect(toRegExp(pattern, options).test(regexInput)).toBe(
+          isMatch(input, pattern, options)
+        );
+      }
+    });
+
+    test("should reject invalid patterns", () => {
+      expect(() => makeRe("foo[")).toThrow("Invalid pattern");
+    });
   });
 });